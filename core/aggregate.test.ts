@@ -0,0 +1,208 @@
+import { expect, test } from 'bun:test';
+import * as Y from 'yjs';
+import z from 'zod';
+import { type Aggregates, aggregate, watchAggregate } from './aggregate';
+import { any, eq } from './filter';
+import { table } from './table';
+import { remove, update, upsert } from './update';
+import { select } from './view';
+
+const NoteTable = table(
+    'notes',
+    z.object({
+        key: z.string(),
+        title: z.string(),
+        read: z.boolean(),
+        folder: z.string().optional(),
+        words: z.number(),
+        meta: z.object({ stars: z.number().optional() }),
+    }),
+    { indexes: ['folder'] },
+);
+
+function note(
+    key: string,
+    folder: string | undefined,
+    words: number,
+    read = false,
+    stars?: number,
+) {
+    return {
+        key,
+        title: `Note ${key}`,
+        read,
+        folder,
+        words,
+        meta: { stars },
+    };
+}
+
+function notes() {
+    const doc = new Y.Doc();
+    upsert(doc, NoteTable, note('a', 'work', 100, false, 3));
+    upsert(doc, NoteTable, note('b', 'work', 300, true, 5));
+    upsert(doc, NoteTable, note('c', 'home', 50, false));
+    upsert(doc, NoteTable, note('d', undefined, 10, false, 1));
+    return doc;
+}
+
+test('Aggregates', () => {
+    const doc = notes();
+    expect(aggregate(doc, NoteTable, eq('read', false))).toEqual({
+        count: 3,
+        sum: {},
+        avg: {},
+        min: {},
+        max: {},
+    });
+    expect(
+        aggregate(doc, NoteTable, any(), {
+            sum: ['words'],
+            avg: ['words', 'meta.stars'],
+            min: ['title', 'meta.stars'],
+            max: ['words'],
+        }),
+    ).toEqual({
+        count: 4,
+        sum: { words: 460 },
+        avg: { words: 115, 'meta.stars': 3 },
+        min: { title: 'Note a', 'meta.stars': 1 },
+        max: { words: 300 },
+    });
+    expect(
+        aggregate(doc, NoteTable, eq('folder', 'nowhere'), {
+            sum: ['words'],
+            avg: ['words'],
+            max: ['words'],
+        }),
+    ).toEqual({
+        count: 0,
+        sum: { words: 0 },
+        avg: { words: null },
+        min: {},
+        max: { words: null },
+    });
+
+    const grouped = aggregate(doc, NoteTable, eq('read', false), {
+        groupBy: 'folder',
+        sum: ['words'],
+    });
+    expect(grouped.get('work')).toMatchObject({
+        count: 1,
+        sum: { words: 100 },
+    });
+    expect(grouped.get('home')?.count).toBe(1);
+    expect(grouped.get(undefined)?.count).toBe(1);
+    expect(grouped.size).toBe(3);
+
+    // @ts-expect-error Only numbers can be summed
+    aggregate(doc, NoteTable, any(), { sum: ['title'] });
+});
+
+test('Incompletely replicated rows are not aggregated', () => {
+    const doc = notes();
+    // Row exists, but required fields have not been replicated yet
+    doc.getMap('notes').set('e', true);
+    doc.getMap('notes.e').set('words', 1000);
+    expect(select(doc, NoteTable, any())).toHaveLength(4);
+
+    let values: Aggregates | null = null;
+    watchAggregate(doc, NoteTable, any(), { sum: ['words'] }, (result) => {
+        values = result;
+    });
+    expect(aggregate(doc, NoteTable, any(), { sum: ['words'] })).toEqual({
+        count: 4,
+        sum: { words: 460 },
+        avg: {},
+        min: {},
+        max: {},
+    });
+    expect(values).toMatchObject({ count: 4, sum: { words: 460 } });
+
+    upsert(doc, NoteTable, note('e', 'home', 1000));
+    expect(values).toMatchObject({ count: 5, sum: { words: 1460 } });
+});
+
+test('Watched aggregates are updated incrementally', () => {
+    const doc = notes();
+    const seen: Aggregates[] = [];
+    const unwatch = watchAggregate(
+        doc,
+        NoteTable,
+        eq('read', false),
+        { sum: ['words'], min: ['words'], max: ['words'] },
+        (values) => {
+            seen.push(values);
+        },
+    );
+    const last = () => {
+        const { count, sum, min, max } = seen[seen.length - 1] as Aggregates;
+        return [count, sum.words, min.words, max.words];
+    };
+    expect(last()).toEqual([3, 160, 10, 100]);
+
+    upsert(doc, NoteTable, note('e', 'home', 500));
+    expect(last()).toEqual([4, 660, 10, 500]);
+    remove(doc, NoteTable, 'e');
+    expect(last()).toEqual([3, 160, 10, 100]);
+
+    // Rows that stop or start matching the query
+    update(doc, NoteTable, { key: 'd', read: true });
+    expect(last()).toEqual([2, 150, 50, 100]);
+    update(doc, NoteTable, { key: 'b', read: false });
+    expect(last()).toEqual([3, 450, 50, 300]);
+
+    // Changes in aggregated fields
+    update(doc, NoteTable, { key: 'b', words: 20 });
+    expect(last()).toEqual([3, 170, 20, 100]);
+
+    // Changes in other fields do not matter
+    const count = seen.length;
+    update(doc, NoteTable, { key: 'a', title: 'Renamed' });
+    expect(seen).toHaveLength(count);
+
+    // Changes of a transaction are delivered together
+    doc.transact(() => {
+        update(doc, NoteTable, { key: 'a', words: 1 });
+        update(doc, NoteTable, { key: 'c', words: 2 });
+    });
+    expect(seen).toHaveLength(count + 1);
+    expect(last()).toEqual([3, 23, 1, 20]);
+
+    unwatch();
+    remove(doc, NoteTable, 'a');
+    expect(seen).toHaveLength(count + 1);
+});
+
+test('Watched aggregates by group', () => {
+    const doc = notes();
+    const remote = new Y.Doc();
+    Y.applyUpdate(remote, Y.encodeStateAsUpdate(doc));
+    let groups = new Map<string | undefined, Aggregates>();
+    watchAggregate(
+        doc,
+        NoteTable,
+        any(),
+        { groupBy: 'folder', avg: ['meta.stars'] },
+        (values) => {
+            groups = values;
+        },
+    );
+    const summary = () =>
+        Object.fromEntries(
+            Array.from(groups, ([folder, values]) => [
+                folder ?? 'none',
+                [values.count, values.avg['meta.stars']],
+            ]),
+        );
+    expect(summary()).toEqual({
+        work: [2, 4],
+        home: [1, null],
+        none: [1, 1],
+    });
+
+    update(remote, NoteTable, { key: 'c', folder: 'work', meta: { stars: 1 } });
+    remove(remote, NoteTable, 'd');
+    Y.applyUpdate(doc, Y.encodeStateAsUpdate(remote));
+    expect(summary()).toEqual({ work: [3, 3] });
+});
@@ -0,0 +1,418 @@
+import type * as Y from 'yjs';
+import {
+    type Comparable,
+    evaluateFilter,
+    type Filter,
+    type Path,
+    type PathsOf,
+    type PathValue,
+    type Scalar,
+} from './filter';
+import { candidateKeys } from './indexes';
+import { compareValues } from './order';
+import type { Table, TableBase } from './table';
+import type { ChangeContext } from './view';
+import {
+    allKeys,
+    changeContext,
+    filterRow,
+    observeKeys,
+    observeRow,
+    readDataPresent,
+} from './yjs-types';
+
+/**
+ * What to compute from rows that match a query. Number of rows is always
+ * computed.
+ */
+export interface AggregateSpec<T> {
+    /**
+     * Field to group the rows by. If this is given, values are computed
+     * separately for each distinct value of the field.
+     */
+    groupBy?: PathsOf<T, Scalar>;
+
+    /**
+     * Fields to compute sums of. Values that are not numbers are ignored.
+     */
+    sum?: readonly PathsOf<T, number>[];
+
+    /**
+     * Fields to compute averages of. Values that are not numbers are ignored.
+     */
+    avg?: readonly PathsOf<T, number>[];
+
+    /**
+     * Fields to find smallest values of. Missing values and nulls are ignored.
+     */
+    min?: readonly PathsOf<T, Comparable>[];
+
+    /**
+     * Fields to find largest values of. Missing values and nulls are ignored.
+     */
+    max?: readonly PathsOf<T, Comparable>[];
+}
+
+/**
+ * Values computed from a group of rows. Sums, averages, minimums and
+ * maximums are keyed by their fields. Averages, minimums and maximums of
+ * fields that have no values are null.
+ */
+export interface Aggregates {
+    count: number;
+    sum: Record<string, number>;
+    avg: Record<string, number | null>;
+    min: Record<string, Comparable | null>;
+    max: Record<string, Comparable | null>;
+}
+
+/**
+ * Values of aggregated fields in a row that matches the query.
+ */
+interface Contribution {
+    group: unknown;
+    values: unknown[];
+}
+
+interface Group {
+    keys: Set<string>;
+    sums: number[];
+    numbers: number[];
+
+    /**
+     * Smallest and largest value of each field, or undefined if they need to
+     * be recomputed.
+     */
+    min: (Comparable | null | undefined)[];
+    max: (Comparable | null | undefined)[];
+}
+
+/**
+ * Creates an accumulator that keeps track of aggregated values of rows as
+ * they are added, changed and removed.
+ */
+function accumulator<T>(spec: AggregateSpec<T>) {
+    const fields = [
+        ...new Set([
+            ...(spec.sum ?? []),
+            ...(spec.avg ?? []),
+            ...(spec.min ?? []),
+            ...(spec.max ?? []),
+        ]),
+    ] as string[];
+    const contributions = new Map<string, Contribution>();
+    const groups = new Map<unknown, Group>();
+
+    const add = (key: string, contribution: Contribution) => {
+        let group = groups.get(contribution.group);
+        if (!group) {
+            group = {
+                keys: new Set(),
+                sums: fields.map(() => 0),
+                numbers: fields.map(() => 0),
+                min: fields.map(() => null),
+                max: fields.map(() => null),
+            };
+            groups.set(contribution.group, group);
+        }
+        group.keys.add(key);
+        contribution.values.forEach((value, i) => {
+            if (typeof value === 'number') {
+                group.sums[i] = (group.sums[i] as number) + value;
+                group.numbers[i] = (group.numbers[i] as number) + 1;
+            }
+            if (value == null) {
+                return;
+            }
+            // If extremes need to be recomputed, they'll take this value into account
+            const min = group.min[i];
+            if (
+                min === null ||
+                (min !== undefined && compareValues(value, min) < 0)
+            ) {
+                group.min[i] = value as Comparable;
+            }
+            const max = group.max[i];
+            if (
+                max === null ||
+                (max !== undefined && compareValues(value, max) > 0)
+            ) {
+                group.max[i] = value as Comparable;
+            }
+        });
+    };
+
+    const remove = (key: string, contribution: Contribution) => {
+        const group = groups.get(contribution.group) as Group;
+        group.keys.delete(key);
+        if (group.keys.size === 0) {
+            groups.delete(contribution.group);
+            return;
+        }
+        contribution.values.forEach((value, i) => {
+            if (typeof value === 'number') {
+                group.sums[i] = (group.sums[i] as number) - value;
+                group.numbers[i] = (group.numbers[i] as number) - 1;
+            }
+            if (value != null && value === group.min[i]) {
+                group.min[i] = undefined;
+            }
+            if (value != null && value === group.max[i]) {
+                group.max[i] = undefined;
+            }
+        });
+    };
+
+    const summarize = (group: Group | undefined): Aggregates => {
+        fields.forEach((_field, i) => {
+            if (
+                group &&
+                (group.min[i] === undefined || group.max[i] === undefined)
+            ) {
+                findExtremes(group, i);
+            }
+        });
+        const select = <V>(
+            selected: readonly string[] | undefined,
+            value: (i: number) => V,
+        ): Record<string, V> =>
+            Object.fromEntries(
+                (selected ?? []).map((field) => [
+                    field,
+                    value(fields.indexOf(field)),
+                ]),
+            );
+        return {
+            count: group?.keys.size ?? 0,
+            sum: select(spec.sum, (i) => group?.sums[i] ?? 0),
+            avg: select(spec.avg, (i) =>
+                group?.numbers[i]
+                    ? (group.sums[i] as number) / group.numbers[i]
+                    : null,
+            ),
+            min: select(spec.min, (i) => group?.min[i] ?? null),
+            max: select(spec.max, (i) => group?.max[i] ?? null),
+        };
+    };
+
+    // Previous extreme was removed; find the next one
+    const findExtremes = (group: Group, i: number) => {
+        group.min[i] = null;
+        group.max[i] = null;
+        for (const key of group.keys) {
+            const value = contributions.get(key)?.values[i];
+            if (value == null) {
+                continue;
+            }
+            const min = group.min[i];
+            if (min === null || compareValues(value, min) < 0) {
+                group.min[i] = value as Comparable;
+            }
+            const max = group.max[i];
+            if (max === null || compareValues(value, max) > 0) {
+                group.max[i] = value as Comparable;
+            }
+        }
+    };
+
+    return {
+        fields,
+
+        /**
+         * Sets aggregated values of a row, or removes the row if it no
+         * longer matches the query.
+         * @returns Whether the results changed.
+         */
+        set(key: string, contribution: Contribution | null): boolean {
+            const old = contributions.get(key);
+            if (
+                old &&
+                contribution &&
+                old.group === contribution.group &&
+                old.values.every((value, i) => value === contribution.values[i])
+            ) {
+                return false; // Other fields of the row changed
+            }
+            if (old) {
+                remove(key, old);
+                contributions.delete(key);
+            }
+            if (contribution) {
+                add(key, contribution);
+                contributions.set(key, contribution);
+            }
+            return old !== undefined || contribution !== null;
+        },
+
+        result(): Aggregates | Map<unknown, Aggregates> {
+            if (spec.groupBy === undefined) {
+                return summarize(groups.get(undefined));
+            }
+            const result = new Map<unknown, Aggregates>();
+            for (const [value, group] of groups) {
+                result.set(value, summarize(group));
+            }
+            return result;
+        },
+    };
+}
+
+/**
+ * Reads aggregated values of a row, or returns null if it does not match
+ * the query. Like select(), rows that have not been fully replicated yet
+ * are skipped.
+ */
+function contributionOf<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    spec: AggregateSpec<T>,
+    fields: string[],
+    key: string,
+): Contribution | null {
+    const row = filterRow(doc, table, key);
+    if (!evaluateFilter(query, row) || !readDataPresent(doc, table, key)) {
+        return null;
+    }
+    return {
+        group:
+            spec.groupBy !== undefined
+                ? row.get(spec.groupBy as Path<T>)
+                : undefined,
+        values: fields.map((field) => row.get(field as Path<T>)),
+    };
+}
+
+/**
+ * Computes counts, sums, averages, minimums and maximums of rows that match
+ * the given query.
+ * @param doc Database to operate on.
+ * @param table Table to read from.
+ * @param query Query that the rows are evaluated against.
+ * @param spec Values to compute and how to group the rows.
+ * @returns Computed values. If the rows are grouped, values of each group
+ * by value of the field they are grouped by.
+ */
+export function aggregate<T extends TableBase, P extends Path<T>>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    spec: AggregateSpec<T> & { groupBy: P },
+): Map<PathValue<T, P>, Aggregates>;
+export function aggregate<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    spec?: AggregateSpec<T>,
+): Aggregates;
+export function aggregate<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    spec: AggregateSpec<T> = {},
+): Aggregates | Map<unknown, Aggregates> {
+    const values = accumulator(spec);
+    for (const key of candidateKeys(doc, table, query)) {
+        values.set(
+            key,
+            contributionOf(doc, table, query, spec, values.fields, key),
+        );
+    }
+    return values.result();
+}
+
+/**
+ * Watches counts, sums, averages, minimums and maximums of rows that match
+ * the given query. Values are updated incrementally as rows are added,
+ * changed and removed, without reading other rows again.
+ *
+ * Unlike watch(), this observes content of all rows in the table, so that
+ * rows that are changed to match the query are also taken into account.
+ * @param doc Database to operate on.
+ * @param table Table to read from.
+ * @param query Query that the rows are evaluated against.
+ * @param spec Values to compute and how to group the rows.
+ * @param watcher Watcher function. This is called with the current values
+ * immediately, and then after every transaction that changes them. As
+ * second argument, the transaction is described (see watch()).
+ * @returns Function that, when called, stops this watch operation.
+ */
+export function watchAggregate<T extends TableBase, P extends Path<T>>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    spec: AggregateSpec<T> & { groupBy: P },
+    watcher: (
+        values: Map<PathValue<T, P>, Aggregates>,
+        context: ChangeContext | null,
+    ) => void,
+): () => void;
+export function watchAggregate<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    spec: AggregateSpec<T>,
+    watcher: (values: Aggregates, context: ChangeContext | null) => void,
+): () => void;
+export function watchAggregate<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    spec: AggregateSpec<T>,
+    watcher: (values: never, context: ChangeContext | null) => void,
+): () => void {
+    const values = accumulator(spec);
+    const update = (key: string) =>
+        values.set(
+            key,
+            contributionOf(doc, table, query, spec, values.fields, key),
+        );
+
+    // Values are delivered once per transaction, no matter how many rows changed
+    let changed = false;
+    const flush = (transaction: Y.Transaction) => {
+        if (changed) {
+            changed = false;
+            watcher(values.result() as never, changeContext(doc, transaction));
+        }
+    };
+    doc.on('afterTransaction', flush);
+
+    const rowUnobservers: Map<string, () => void> = new Map();
+    const unobserveRow = (key: string) => {
+        rowUnobservers.get(key)?.();
+        rowUnobservers.delete(key);
+    };
+    const observeContent = (key: string) => {
+        const rowWatcher = () => {
+            changed = update(key) || changed;
+        };
+        rowUnobservers.set(
+            key,
+            observeRow(doc, table, key, 'content', rowWatcher),
+        );
+    };
+
+    const unobserveTable = observeKeys(doc, table, (added, removed) => {
+        for (const key of removed) {
+            unobserveRow(key);
+            changed = values.set(key, null) || changed;
+        }
+        for (const key of added) {
+            observeContent(key);
+            changed = update(key) || changed;
+        }
+    });
+
+    for (const key of allKeys(doc, table)) {
+        observeContent(key);
+        update(key);
+    }
+    watcher(values.result() as never, null);
+
+    return () => {
+        doc.off('afterTransaction', flush);
+        unobserveTable();
+        rowUnobservers.forEach((func) => void func());
+    };
+}
@@ -0,0 +1,478 @@
+import { expect, test } from 'bun:test';
+import * as Y from 'yjs';
+import z from 'zod';
+import { any } from './filter';
+import {
+    addToSet,
+    append,
+    insertAt,
+    move,
+    removeAt,
+    removeFromSet,
+    unset,
+    updateAt,
+} from './operations';
+import { table } from './table';
+import { increment, update, upsert } from './update';
+import { getKey, watch } from './view';
+
+function sync(doc1: Y.Doc, doc2: Y.Doc) {
+    Y.applyUpdate(doc1, Y.encodeStateAsUpdate(doc2));
+    Y.applyUpdate(doc2, Y.encodeStateAsUpdate(doc1));
+}
+
+const ArrayTable = table(
+    'arrays',
+    z.object({
+        key: z.string(),
+        items: z
+            .array(z.object({ name: z.string(), done: z.boolean() }))
+            .meta({ syncAs: Y.Array }),
+        numbers: z.array(z.number()).meta({ syncAs: Y.Array }),
+        plain: z.array(z.string()),
+    }),
+);
+
+test('Array operations', () => {
+    const doc = new Y.Doc();
+    upsert(doc, ArrayTable, {
+        key: '1',
+        items: [{ name: 'first', done: false }],
+        numbers: [1, 2, 3],
+        plain: ['a'],
+    });
+    expect(getKey(doc, ArrayTable, '1')?.items).toEqual([
+        { name: 'first', done: false },
+    ]);
+
+    update(doc, ArrayTable, {
+        key: '1',
+        items: append({ name: 'second', done: false }),
+    });
+    update(doc, ArrayTable, {
+        key: '1',
+        items: insertAt(0, { name: 'zeroth', done: true }),
+    });
+    update(doc, ArrayTable, { key: '1', items: move(0, 2) });
+    update(doc, ArrayTable, { key: '1', items: updateAt(0, { done: true }) });
+    update(doc, ArrayTable, { key: '1', numbers: removeAt(1) });
+    update(doc, ArrayTable, { key: '1', plain: append('b', 'c') });
+
+    const row = getKey(doc, ArrayTable, '1');
+    expect(row?.items).toEqual([
+        { name: 'first', done: true },
+        { name: 'second', done: false },
+        { name: 'zeroth', done: true },
+    ]);
+    expect(row?.numbers).toEqual([1, 3]);
+    expect(row?.plain).toEqual(['a', 'b', 'c']);
+
+    // Elements are stored as Y.Maps
+    const stored = doc.getArray('arrays.1.items');
+    expect(stored.get(0)).toBeInstanceOf(Y.Map);
+
+    // Replacing the whole array is still possible
+    update(doc, ArrayTable, { key: '1', numbers: [42] });
+    expect(getKey(doc, ArrayTable, '1')?.numbers).toEqual([42]);
+});
+
+test('Concurrent array operations are merged', () => {
+    const doc1 = new Y.Doc();
+    const doc2 = new Y.Doc();
+    upsert(doc1, ArrayTable, {
+        key: '1',
+        items: [{ name: 'first', done: false }],
+        numbers: [],
+        plain: [],
+    });
+    sync(doc1, doc2);
+
+    update(doc1, ArrayTable, {
+        key: '1',
+        items: append({ name: 'from doc1', done: false }),
+    });
+    update(doc1, ArrayTable, { key: '1', items: updateAt(0, { done: true }) });
+    update(doc2, ArrayTable, {
+        key: '1',
+        items: append({ name: 'from doc2', done: false }),
+    });
+    update(doc2, ArrayTable, {
+        key: '1',
+        items: updateAt(0, { name: 'renamed' }),
+    });
+    sync(doc1, doc2);
+
+    const items = getKey(doc1, ArrayTable, '1')?.items;
+    expect(items).toHaveLength(3);
+    expect(items?.[0]).toEqual({ name: 'renamed', done: true });
+    expect(items?.map((item) => item.name)).toContainAllValues([
+        'renamed',
+        'from doc1',
+        'from doc2',
+    ]);
+    expect(getKey(doc2, ArrayTable, '1')?.items).toEqual(items ?? []);
+});
+
+test('Array changes are detected at content level', () => {
+    const doc = new Y.Doc();
+    upsert(doc, ArrayTable, {
+        key: '1',
+        items: [{ name: 'first', done: false }],
+        numbers: [],
+        plain: [],
+    });
+
+    let changeCount = 0;
+    watch(doc, ArrayTable, any(), 'content', (_added, _removed, changed) => {
+        changeCount += changed.length;
+    });
+    update(doc, ArrayTable, { key: '1', numbers: append(1) });
+    expect(changeCount).toBe(1);
+    update(doc, ArrayTable, { key: '1', items: updateAt(0, { done: true }) });
+    expect(changeCount).toBe(2);
+});
+
+test('Arrays in nested layout', () => {
+    const doc = new Y.Doc();
+    const NestedArrayTable = table('nestedarrays', ArrayTable.type, {
+        layout: 'nested',
+    });
+    upsert(doc, NestedArrayTable, {
+        key: '1',
+        items: [{ name: 'first', done: false }],
+        numbers: [1],
+        plain: [],
+    });
+    update(doc, NestedArrayTable, {
+        key: '1',
+        items: append({ name: 'second', done: true }),
+    });
+    expect(getKey(doc, NestedArrayTable, '1')?.items).toEqual([
+        { name: 'first', done: false },
+        { name: 'second', done: true },
+    ]);
+});
+
+const RecordTable = table(
+    'records',
+    z.object({
+        key: z.string(),
+        scores: z.record(z.string(), z.number()),
+        people: z.record(
+            z.string(),
+            z.object({ name: z.string(), age: z.number() }),
+        ),
+    }),
+);
+
+test('Record entries are merged', () => {
+    const doc1 = new Y.Doc();
+    const doc2 = new Y.Doc();
+    upsert(doc1, RecordTable, {
+        key: '1',
+        scores: { a: 1 },
+        people: { alice: { name: 'Alice', age: 30 } },
+    });
+    sync(doc1, doc2);
+
+    update(doc1, RecordTable, {
+        key: '1',
+        scores: { b: 2 },
+        people: { alice: { age: 31 } },
+    });
+    update(doc2, RecordTable, {
+        key: '1',
+        scores: { c: 3, a: unset() },
+        people: { bob: { name: 'Bob', age: 40 } },
+    });
+    sync(doc1, doc2);
+
+    const row = getKey(doc1, RecordTable, '1');
+    expect(row?.scores).toEqual({ b: 2, c: 3 });
+    expect(row?.people).toEqual({
+        alice: { name: 'Alice', age: 31 },
+        bob: { name: 'Bob', age: 40 },
+    });
+    expect(getKey(doc2, RecordTable, '1')).toEqual(row);
+
+    // Upserts replace the whole record
+    upsert(doc1, RecordTable, { key: '1', scores: {}, people: {} });
+    expect(getKey(doc1, RecordTable, '1')).toEqual({
+        key: '1',
+        scores: {},
+        people: {},
+    });
+    expect(doc1.getMap('records.1.people.alice').size).toBe(0);
+});
+
+test('Record changes are detected at content level', () => {
+    const doc = new Y.Doc();
+    upsert(doc, RecordTable, { key: '1', scores: {}, people: {} });
+
+    let changeCount = 0;
+    watch(doc, RecordTable, any(), 'content', (_added, _removed, changed) => {
+        changeCount += changed.length;
+    });
+    update(doc, RecordTable, { key: '1', scores: { a: 1 } });
+    expect(changeCount).toBe(1);
+    update(doc, RecordTable, {
+        key: '1',
+        people: { alice: { name: 'Alice', age: 30 } },
+    });
+    expect(changeCount).toBe(2);
+
+    // Entries that were added later are observed too
+    update(doc, RecordTable, { key: '1', people: { alice: { age: 31 } } });
+    expect(changeCount).toBe(3);
+});
+
+test('Records in nested layout', () => {
+    const doc = new Y.Doc();
+    const NestedRecordTable = table('nestedrecords', RecordTable.type, {
+        layout: 'nested',
+    });
+    upsert(doc, NestedRecordTable, {
+        key: '1',
+        scores: { a: 1 },
+        people: { alice: { name: 'Alice', age: 30 } },
+    });
+    update(doc, NestedRecordTable, {
+        key: '1',
+        scores: { b: 2 },
+        people: { alice: unset(), bob: { name: 'Bob', age: 40 } },
+    });
+    expect(getKey(doc, NestedRecordTable, '1')).toEqual({
+        key: '1',
+        scores: { a: 1, b: 2 },
+        people: { bob: { name: 'Bob', age: 40 } },
+    });
+});
+
+test('Partial updates keep entries of records written as plain values', () => {
+    const doc = new Y.Doc();
+    const NestedRecordTable = table('nestedrecords', RecordTable.type, {
+        layout: 'nested',
+    });
+    // Older versions stored records as plain values
+    const legacy = {
+        scores: { a: 1, b: 2 },
+        people: { alice: { name: 'Alice', age: 30 } },
+    };
+    doc.getMap('records').set('1', true);
+    const rootRow = doc.getMap('records.1');
+    for (const [field, value] of Object.entries(legacy)) {
+        rootRow.set(field, value);
+    }
+    doc.getMap('nestedrecords').set('1', new Y.Map(Object.entries(legacy)));
+
+    for (const Table of [RecordTable, NestedRecordTable]) {
+        update(doc, Table, {
+            key: '1',
+            scores: { c: 3 },
+            people: { bob: { name: 'Bob', age: 40 } },
+        });
+        expect(getKey(doc, Table, '1')).toEqual({
+            key: '1',
+            scores: { a: 1, b: 2, c: 3 },
+            people: {
+                alice: { name: 'Alice', age: 30 },
+                bob: { name: 'Bob', age: 40 },
+            },
+        });
+    }
+});
+
+test('Empty records in nested layout', () => {
+    const doc = new Y.Doc();
+    const NestedRecordTable = table('nestedrecords', RecordTable.type, {
+        layout: 'nested',
+    });
+    upsert(doc, NestedRecordTable, { key: '1', scores: {}, people: {} });
+    expect(getKey(doc, NestedRecordTable, '1')).toEqual({
+        key: '1',
+        scores: {},
+        people: {},
+    });
+});
+
+const TextTable = table(
+    'texts',
+    z.object({
+        key: z.string(),
+        title: z.string().meta({ syncAs: Y.Text }),
+    }),
+);
+
+test('Strings in Y.Text are merged', () => {
+    const doc1 = new Y.Doc();
+    const doc2 = new Y.Doc();
+    upsert(doc1, TextTable, { key: '1', title: 'Hello world' });
+    sync(doc1, doc2);
+    expect(getKey(doc2, TextTable, '1')?.title).toBe('Hello world');
+    expect(doc1.get('texts.1.title', Y.Text)).toBeInstanceOf(Y.Text);
+
+    update(doc1, TextTable, { key: '1', title: 'Hello, world' });
+    update(doc2, TextTable, { key: '1', title: 'Hello world!' });
+    sync(doc1, doc2);
+    expect(getKey(doc1, TextTable, '1')?.title).toBe('Hello, world!');
+    expect(getKey(doc2, TextTable, '1')?.title).toBe('Hello, world!');
+
+    // Only the changed part is edited
+    const text = doc1.get('texts.1.title', Y.Text);
+    let delta: unknown;
+    text.observe((event) => {
+        delta = event.delta;
+    });
+    update(doc1, TextTable, { key: '1', title: 'Hello, there!' });
+    expect(delta).toEqual([{ retain: 7 }, { delete: 5 }, { insert: 'there' }]);
+});
+
+test('Defaults apply to Y.Text fields that were never written', () => {
+    const doc = new Y.Doc();
+    const Untitled = table(
+        'texts',
+        z.object({
+            key: z.string(),
+            title: z.string().default('Untitled').meta({ syncAs: Y.Text }),
+        }),
+    );
+    const Untyped = table('texts', z.object({ key: z.string() }));
+    upsert(doc, Untyped, { key: '1' });
+    expect(getKey(doc, Untitled, '1')?.title).toBe('Untitled');
+
+    // Required fields still read as empty strings
+    upsert(doc, TextTable, { key: '2', title: '' });
+    expect(getKey(doc, TextTable, '2')?.title).toBe('');
+});
+
+test('Y.Text changes are detected at content level', () => {
+    const doc = new Y.Doc();
+    const NestedTextTable = table('nestedtexts', TextTable.type, {
+        layout: 'nested',
+    });
+    upsert(doc, TextTable, { key: '1', title: 'first' });
+    upsert(doc, NestedTextTable, { key: '1', title: 'first' });
+
+    const titles: string[] = [];
+    for (const t of [TextTable, NestedTextTable]) {
+        watch(doc, t, any(), 'content', (_added, _removed, changed) => {
+            titles.push(...changed.map((row) => row.title));
+        });
+    }
+    update(doc, TextTable, { key: '1', title: 'second' });
+    update(doc, NestedTextTable, { key: '1', title: 'third' });
+    expect(titles).toEqual(['second', 'third']);
+});
+
+const CounterTable = table(
+    'counters',
+    z.object({
+        key: z.string(),
+        views: z.number().meta({ counter: true }),
+        plain: z.number(),
+    }),
+);
+
+test('Concurrent increments of counters are merged', () => {
+    const doc1 = new Y.Doc();
+    const doc2 = new Y.Doc();
+    upsert(doc1, CounterTable, { key: '1', views: 10, plain: 0 });
+    sync(doc1, doc2);
+    expect(getKey(doc2, CounterTable, '1')?.views).toBe(10);
+
+    increment(doc1, CounterTable, '1', 'views');
+    increment(doc2, CounterTable, '1', 'views', 5);
+    increment(doc2, CounterTable, '1', 'plain', 2);
+    sync(doc1, doc2);
+    expect(getKey(doc1, CounterTable, '1')).toEqual({
+        key: '1',
+        views: 16,
+        plain: 2,
+    });
+    expect(getKey(doc2, CounterTable, '1')).toEqual({
+        key: '1',
+        views: 16,
+        plain: 2,
+    });
+
+    // Setting the counter takes other peers' contributions into account
+    update(doc2, CounterTable, { key: '1', views: 0 });
+    increment(doc1, CounterTable, '1', 'views', -1);
+    sync(doc1, doc2);
+    expect(getKey(doc1, CounterTable, '1')?.views).toBe(-1);
+});
+
+test('Counter changes are detected at content level', () => {
+    const doc = new Y.Doc();
+    upsert(doc, CounterTable, { key: '1', views: 0, plain: 0 });
+
+    const views: number[] = [];
+    watch(doc, CounterTable, any(), 'content', (_added, _removed, changed) => {
+        views.push(...changed.map((row) => row.views));
+    });
+    increment(doc, CounterTable, '1', 'views');
+    increment(doc, CounterTable, '1', 'views');
+    expect(views).toEqual([1, 2]);
+});
+
+const SetTable = table(
+    'sets',
+    z.object({
+        key: z.string(),
+        tags: z.array(z.string()).meta({ set: true }),
+        members: z.set(z.number()),
+        plain: z.array(z.string()),
+    }),
+);
+
+test('Concurrent set operations are merged', () => {
+    const doc1 = new Y.Doc();
+    const doc2 = new Y.Doc();
+    upsert(doc1, SetTable, {
+        key: '1',
+        tags: ['a', 'b'],
+        members: new Set([1]),
+        plain: ['a'],
+    });
+    sync(doc1, doc2);
+
+    update(doc1, SetTable, { key: '1', tags: addToSet('c', 'a') });
+    update(doc1, SetTable, { key: '1', members: removeFromSet(1) });
+    update(doc2, SetTable, { key: '1', tags: addToSet('d') });
+    update(doc2, SetTable, { key: '1', members: addToSet(1, 2) });
+    update(doc2, SetTable, { key: '1', plain: addToSet('a', 'b') });
+    sync(doc1, doc2);
+
+    // Additions win over concurrent removals
+    const row = getKey(doc1, SetTable, '1');
+    expect(row).toEqual({
+        key: '1',
+        tags: ['a', 'b', 'c', 'd'],
+        members: new Set([1, 2]),
+        plain: ['a', 'b'],
+    });
+    expect(getKey(doc2, SetTable, '1')).toEqual(row);
+
+    update(doc1, SetTable, { key: '1', tags: removeFromSet('a') });
+    update(doc2, SetTable, { key: '1', tags: ['b', 'e'] });
+    sync(doc1, doc2);
+    expect(getKey(doc1, SetTable, '1')?.tags).toEqual(['b', 'e']);
+});
+
+test('Set changes are detected at content level', () => {
+    const doc = new Y.Doc();
+    upsert(doc, SetTable, {
+        key: '1',
+        tags: [],
+        members: new Set<number>(),
+        plain: [],
+    });
+
+    const tags: string[][] = [];
+    watch(doc, SetTable, any(), 'content', (_added, _removed, changed) => {
+        tags.push(...changed.map((row) => row.tags));
+    });
+    update(doc, SetTable, { key: '1', tags: addToSet('a') });
+    update(doc, SetTable, { key: '1', tags: removeFromSet('a') });
+    expect(tags).toEqual([['a'], []]);
+});
@@ -0,0 +1,348 @@
+import { expect, test } from 'bun:test';
+import * as Y from 'yjs';
+import z from 'zod';
+import {
+    and,
+    any,
+    between,
+    custom,
+    eq,
+    type Filter,
+    filterEquals,
+    gt,
+    gte,
+    includes,
+    inList,
+    isNull,
+    lt,
+    lte,
+    matches,
+    not,
+    or,
+    startsWith,
+    variant,
+} from './filter';
+import { table } from './table';
+import { update, upsert } from './update';
+import { select, watch } from './view';
+
+const BookTable = table(
+    'books',
+    z.object({
+        key: z.string(),
+        title: z.string().meta({ syncAs: Y.Text }),
+        author: z.string(),
+        year: z.number(),
+        tags: z.array(z.string()),
+        series: z.string().optional(),
+    }),
+);
+type Book = z.output<typeof BookTable.type>;
+
+function books() {
+    const doc = new Y.Doc();
+    upsert(doc, BookTable, {
+        key: 'dune',
+        title: 'Dune',
+        author: 'Frank Herbert',
+        year: 1965,
+        tags: ['space', 'desert'],
+        series: 'Dune',
+    });
+    upsert(doc, BookTable, {
+        key: 'neuromancer',
+        title: 'Neuromancer',
+        author: 'William Gibson',
+        year: 1984,
+        tags: ['cyberspace'],
+        series: 'Sprawl',
+    });
+    upsert(doc, BookTable, {
+        key: 'count-zero',
+        title: 'Count Zero',
+        author: 'William Gibson',
+        year: 1986,
+        tags: ['cyberspace', 'art'],
+        series: 'Sprawl',
+    });
+    upsert(doc, BookTable, {
+        key: 'hyperion',
+        title: 'Hyperion',
+        author: 'Dan Simmons',
+        year: 1989,
+        tags: ['space'],
+    });
+    return doc;
+}
+
+test('Filters are serializable', () => {
+    const doc = books();
+    const filter = and<Book>(
+        eq('author', 'William Gibson'),
+        not(or(eq('year', 1984), eq('key', 'dune'))),
+    );
+    const json = JSON.stringify(filter);
+    expect(JSON.parse(json)).toEqual({
+        type: 'and',
+        filters: [
+            { type: 'eq', field: 'author', value: 'William Gibson' },
+            {
+                type: 'not',
+                filter: {
+                    type: 'or',
+                    filters: [
+                        { type: 'eq', field: 'year', value: 1984 },
+                        { type: 'eq', field: 'key', value: 'dune' },
+                    ],
+                },
+            },
+        ],
+    });
+
+    const parsed: Filter<Book> = JSON.parse(json);
+    expect(select(doc, BookTable, parsed).map((book) => book.key)).toEqual([
+        'count-zero',
+    ]);
+    expect(filterEquals(filter, parsed)).toBe(true);
+    expect(filterEquals(filter, eq('author', 'William Gibson'))).toBe(false);
+});
+
+test('Filters read fields through storage', () => {
+    const doc = books();
+    expect(select(doc, BookTable, eq('title', 'Dune'))).toHaveLength(1);
+    expect(select(doc, BookTable, eq('key', 'neuromancer'))).toHaveLength(1);
+    expect(select(doc, BookTable, any())).toHaveLength(4);
+});
+
+test('Custom filters', () => {
+    const doc = books();
+    const filter = custom<Book>((row) => (row.get('year') ?? 0) > 1980);
+    expect(select(doc, BookTable, filter)).toHaveLength(3);
+    expect(filterEquals(filter, filter)).toBe(true);
+    expect(
+        filterEquals(
+            filter,
+            custom((row) => (row.get('year') ?? 0) > 1980),
+        ),
+    ).toBe(false);
+
+    const seen: string[] = [];
+    watch(doc, BookTable, filter, 'content', (added) => {
+        seen.push(...added.map((book) => book.key));
+    });
+    expect(seen).toEqual(['neuromancer', 'count-zero', 'hyperion']);
+});
+
+test('Comparison filters', () => {
+    const doc = books();
+    const keys = (filter: Filter<Book>) =>
+        select(doc, BookTable, filter).map((book) => book.key);
+    expect(keys(gt('year', 1984))).toEqual(['count-zero', 'hyperion']);
+    expect(keys(gte('year', 1984))).toEqual([
+        'neuromancer',
+        'count-zero',
+        'hyperion',
+    ]);
+    expect(keys(lt('year', 1984))).toEqual(['dune']);
+    expect(keys(lte('year', 1984))).toEqual(['dune', 'neuromancer']);
+    expect(keys(between('year', 1980, 1986))).toEqual([
+        'neuromancer',
+        'count-zero',
+    ]);
+    expect(keys(gt('title', 'M'))).toEqual(['neuromancer']);
+    expect(keys(and(gt('year', 1980), not(eq('series', 'Sprawl'))))).toEqual([
+        'hyperion',
+    ]);
+
+    // @ts-expect-error Arrays cannot be compared
+    gt<Book, 'tags'>('tags', ['space']);
+    // @ts-expect-error Value must have same type as field
+    gt<Book, 'year'>('year', '1984');
+});
+
+test('Membership filters', () => {
+    const doc = books();
+    const keys = (filter: Filter<Book>) =>
+        select(doc, BookTable, filter).map((book) => book.key);
+    expect(keys(inList('year', [1965, 1989, 2000]))).toEqual([
+        'dune',
+        'hyperion',
+    ]);
+    expect(keys(isNull('series'))).toEqual(['hyperion']);
+    expect(keys(not(isNull('series')))).toHaveLength(3);
+    expect(keys(includes('tags', 'space'))).toEqual(['dune', 'hyperion']);
+    expect(keys(or(includes('tags', 'art'), eq('year', 1965)))).toEqual([
+        'dune',
+        'count-zero',
+    ]);
+
+    // @ts-expect-error List items must have same type as field
+    inList<Book, 'year'>('year', ['1965']);
+});
+
+test('Dates and sets are compared by value', () => {
+    // Yjs can't sync Dates, so they're only usable in documents that are not shared
+    const schema = z.object({
+        key: z.string(),
+        at: z.date(),
+        attendees: z.set(z.string()),
+    });
+    for (const indexes of [[], ['at']]) {
+        const doc = new Y.Doc();
+        const EventTable = table('events', schema, { indexes });
+        upsert(doc, EventTable, {
+            key: 'launch',
+            at: new Date(2020, 0, 1),
+            attendees: new Set(['alice', 'bob']),
+        });
+        upsert(doc, EventTable, {
+            key: 'party',
+            at: new Date(2021, 0, 1),
+            attendees: new Set(['alice']),
+        });
+        const keys = (filter: Filter<z.output<typeof schema>>) =>
+            select(doc, EventTable, filter).map((event) => event.key);
+        expect(keys(eq('at', new Date(2020, 0, 1)))).toEqual(['launch']);
+        expect(keys(gt('at', new Date(2020, 0, 1)))).toEqual(['party']);
+        expect(keys(lte('at', new Date(2020, 6, 1)))).toEqual(['launch']);
+        expect(
+            keys(between('at', new Date(2019, 0, 1), new Date(2021, 0, 1))),
+        ).toEqual(['launch', 'party']);
+        expect(keys(eq('attendees', new Set(['bob', 'alice'])))).toEqual([
+            'launch',
+        ]);
+        expect(keys(eq('attendees', new Set(['bob'])))).toEqual([]);
+    }
+});
+
+test('Yjs types in filters are compared by content', () => {
+    const doc = new Y.Doc();
+    const RawTable = table(
+        'raws',
+        z.object({
+            key: z.string(),
+            raw: z.instanceof(Y.Map).meta({ syncAs: Y.Map }),
+        }),
+    );
+    const a = doc.getMap('a');
+    const b = doc.getMap('b');
+    a.set('title', 'hello');
+    b.set('title', 'hello');
+    type Raw = z.output<typeof RawTable.type>;
+    expect(filterEquals(eq<Raw, 'raw'>('raw', a), eq('raw', b))).toBe(true);
+    b.set('title', 'world');
+    expect(filterEquals(eq<Raw, 'raw'>('raw', a), eq('raw', b))).toBe(false);
+});
+
+test('String filters', () => {
+    const doc = books();
+    const keys = (filter: Filter<Book>) =>
+        select(doc, BookTable, filter).map((book) => book.key);
+    expect(keys(startsWith('author', 'William'))).toEqual([
+        'neuromancer',
+        'count-zero',
+    ]);
+    expect(keys(startsWith('author', 'william'))).toEqual([]);
+    expect(keys(includes('title', 'ero'))).toEqual(['count-zero']);
+    expect(keys(matches('title', 'UN'))).toEqual(['dune', 'count-zero']);
+    expect(keys(matches('series', 'SPRAWL'))).toEqual([
+        'neuromancer',
+        'count-zero',
+    ]);
+    // Text is not a regular expression
+    expect(keys(matches('series', 'spr*'))).toEqual([]);
+    expect(keys(matches('title', 'c++'))).toEqual([]);
+
+    // @ts-expect-error Only string fields can be matched
+    startsWith<Book, 'year'>('year', '19');
+    // @ts-expect-error Only string fields can be matched
+    matches<Book, 'tags'>('tags', 'space');
+});
+
+const PlaceTable = table(
+    'places',
+    z.object({
+        key: z.string(),
+        address: z.object({
+            city: z.string(),
+            street: z.string().optional(),
+        }),
+        shape: z.discriminatedUnion('type', [
+            z.object({ type: z.literal('circle'), radius: z.number() }),
+            z.object({ type: z.literal('square'), size: z.number() }),
+        ]),
+    }),
+);
+type Place = z.output<typeof PlaceTable.type>;
+
+test('Filters on nested fields', () => {
+    const doc = new Y.Doc();
+    upsert(doc, PlaceTable, {
+        key: 'a',
+        address: { city: 'Helsinki', street: 'Mannerheimintie' },
+        shape: { type: 'circle', radius: 2 },
+    });
+    upsert(doc, PlaceTable, {
+        key: 'b',
+        address: { city: 'Tampere' },
+        shape: { type: 'square', size: 3 },
+    });
+    const keys = (filter: Filter<Place>) =>
+        select(doc, PlaceTable, filter).map((place) => place.key);
+
+    expect(keys(eq('address.city', 'Helsinki'))).toEqual(['a']);
+    expect(keys(eq('address', { city: 'Tampere' }))).toEqual(['b']);
+    expect(keys(isNull('address.street'))).toEqual(['b']);
+    expect(keys(variant('shape', 'square'))).toEqual(['b']);
+    expect(keys(gt('shape.radius', 1))).toEqual(['a']);
+    expect(
+        keys(or(gt('shape.size', 2), startsWith('address.city', 'H'))),
+    ).toEqual(['a', 'b']);
+    expect(
+        JSON.parse(JSON.stringify(variant<Place, 'shape'>('shape', 'circle'))),
+    ).toEqual({
+        type: 'variant',
+        field: 'shape',
+        value: 'circle',
+    });
+
+    // @ts-expect-error No such field
+    eq<Place, 'address.country'>('address.country', 'Finland');
+    // @ts-expect-error No such variant
+    variant<Place, 'shape'>('shape', 'triangle');
+});
+
+test('Watchers re-evaluate filters on nested fields', () => {
+    const doc = new Y.Doc();
+    for (const key of ['a', 'b']) {
+        upsert(doc, PlaceTable, {
+            key,
+            address: { city: 'Helsinki' },
+            shape: { type: 'circle', radius: 2 },
+        });
+    }
+    const events: string[] = [];
+    watch(
+        doc,
+        PlaceTable,
+        and<Place>(eq('address.city', 'Helsinki'), variant('shape', 'circle')),
+        'content',
+        (added, removed, changed) => {
+            events.push(
+                ...added.map((place) => `added ${place.key}`),
+                ...removed.map((place) => `removed ${place.key}`),
+                ...changed.map((place) => `changed ${place.key}`),
+            );
+        },
+    );
+    update(doc, PlaceTable, { key: 'a', shape: { radius: 3 } });
+    update(doc, PlaceTable, { key: 'a', address: { city: 'Tampere' } });
+    update(doc, PlaceTable, { key: 'b', shape: { type: 'square', size: 1 } });
+    expect(events).toEqual([
+        'added a',
+        'added b',
+        'changed a',
+        'removed a',
+        'removed b',
+    ]);
+});
@@ -0,0 +1,547 @@
+import * as Y from 'yjs';
+import type { AnyYType } from './yjs-types';
+
+/**
+ * Query filter.
+ *
+ * Filters are plain objects that form an expression tree. They can be
+ * inspected, compared with filterEquals() and serialized as JSON (except for
+ * custom() filters). Use the helper functions such as eq() and and() to
+ * construct them in a type-safe way.
+ *
+ * Filters can refer to fields of nested objects and discriminated unions
+ * using dotted paths, such as 'address.city'.
+ */
+export type Filter<T> =
+    | AnyFilter
+    | EqFilter
+    | CompareFilter
+    | BetweenFilter
+    | InListFilter
+    | IsNullFilter
+    | StringFilter
+    | IncludesFilter
+    | VariantFilter
+    | NotFilter<T>
+    | AndFilter<T>
+    | OrFilter<T>
+    | CustomFilter<T>;
+
+export interface AnyFilter {
+    type: 'any';
+}
+
+export interface EqFilter {
+    type: 'eq';
+    field: string;
+    value: unknown;
+}
+
+export interface CompareFilter {
+    type: 'gt' | 'gte' | 'lt' | 'lte';
+    field: string;
+    value: Comparable;
+}
+
+export interface BetweenFilter {
+    type: 'between';
+    field: string;
+    min: Comparable;
+    max: Comparable;
+}
+
+export interface InListFilter {
+    type: 'inList';
+    field: string;
+    values: unknown[];
+}
+
+export interface IsNullFilter {
+    type: 'isNull';
+    field: string;
+}
+
+export interface StringFilter {
+    type: 'startsWith' | 'matches';
+    field: string;
+    value: string;
+}
+
+export interface IncludesFilter {
+    type: 'includes';
+    field: string;
+    value: unknown;
+}
+
+export interface VariantFilter {
+    type: 'variant';
+    field: string;
+    value: string | number;
+}
+
+export interface NotFilter<T> {
+    type: 'not';
+    filter: Filter<T>;
+}
+
+export interface AndFilter<T> {
+    type: 'and';
+    filters: Filter<T>[];
+}
+
+export interface OrFilter<T> {
+    type: 'or';
+    filters: Filter<T>[];
+}
+
+export interface CustomFilter<T> {
+    type: 'custom';
+    predicate: (row: FilterRow<T>) => boolean;
+}
+
+/**
+ * Row that filters are evaluated against. Fields are read lazily, so that
+ * filters do not need to read whole rows.
+ */
+export interface FilterRow<T> {
+    /**
+     * Gets value of a field, as it would appear in the row.
+     * @param path Name of the field, or a dotted path to a field of a nested
+     * object or discriminated union (e.g. 'address.city').
+     */
+    get<P extends Path<T>>(path: P): PathValue<T, P> | undefined;
+
+    /**
+     * Gets the variant (value of discriminator field) of a discriminated
+     * union.
+     * @param path Name of or path to the union field.
+     */
+    variant(path: string): unknown;
+
+    /**
+     * Y.Map that contains top-level fields of the row.
+     */
+    map: Y.Map<unknown>;
+}
+
+/**
+ * Values that can be compared with gt(), lt() and similar filters.
+ */
+export type Comparable = number | string | Date;
+
+/**
+ * Values that are equal only if they are identical, so that they can be
+ * used to group or join rows.
+ */
+export type Scalar = number | string | boolean;
+
+/**
+ * Names of fields, excluding index signatures (which row types of tables
+ * have).
+ */
+type KnownKeys<T> = keyof {
+    [K in keyof T as string extends K ? never : K]: unknown;
+} &
+    string;
+
+/**
+ * Types that filters treat as single values, even though they are objects.
+ */
+type Leaf =
+    | readonly unknown[]
+    | ReadonlySet<unknown>
+    | Date
+    | AnyYType
+    | ((...args: never[]) => unknown);
+
+// Limits how deep paths are generated, since schemas can be recursive
+type PrevDepth = [never, 0, 1, 2, 3, 4];
+
+/**
+ * Names of fields and dotted paths to fields of nested objects and
+ * discriminated unions, e.g. 'address' and 'address.city'.
+ */
+export type Path<T, D extends number = 5> = [D] extends [never]
+    ? never
+    : T extends object
+      ? {
+            [K in KnownKeys<T>]:
+                | K
+                | `${K}.${Path<Exclude<NonNullable<T[K]>, Leaf>, PrevDepth[D]>}`;
+        }[KnownKeys<T>]
+      : never;
+
+/**
+ * Type of value at the given path. If the path goes through an optional
+ * object or a variant of a union that lacks the field, the value can also be
+ * undefined.
+ */
+export type PathValue<T, P extends string> = T extends unknown
+    ? P extends `${infer K}.${infer Rest}`
+        ? K extends keyof T
+            ?
+                  | PathValue<NonNullable<T[K]>, Rest>
+                  | (undefined extends T[K] ? undefined : never)
+            : undefined
+        : P extends keyof T
+          ? T[P]
+          : undefined
+    : never;
+
+/**
+ * Paths to fields whose values (ignoring null and undefined) are of the
+ * given type.
+ */
+export type PathsOf<T, V> = {
+    [P in Path<T>]: NonNullable<PathValue<T, P>> extends V ? P : never;
+}[Path<T>];
+
+/**
+ * Possible variants (discriminator values) of a discriminated union.
+ */
+export type VariantOf<U> = {
+    [K in keyof NonNullable<U>]-?: Literal<NonNullable<U>[K]>;
+}[keyof NonNullable<U>];
+
+type Literal<V> = V extends string | number
+    ? string extends V
+        ? never
+        : number extends V
+          ? never
+          : V
+    : never;
+
+/**
+ * Accepts any row.
+ */
+export function any<T>(): Filter<T> {
+    return { type: 'any' };
+}
+
+/**
+ * Accepts rows that have the given value.
+ * @param key Key in row, or dotted path to a nested field
+ * (e.g. 'address.city').
+ * @param value Expected value.
+ */
+export function eq<T, P extends Path<T>>(
+    key: P,
+    value: PathValue<T, P>,
+): Filter<T> {
+    return { type: 'eq', field: key, value };
+}
+
+/**
+ * Accepts rows where the field is greater than the given value.
+ * @param key Key in row, or dotted path to a nested field.
+ * @param value Value to compare against.
+ */
+export function gt<T, P extends Path<T>>(
+    key: P & PathsOf<T, Comparable>,
+    value: NonNullable<PathValue<T, P>>,
+): Filter<T> {
+    return { type: 'gt', field: key, value: value as Comparable };
+}
+
+/**
+ * Accepts rows where the field is greater than or equal to the given value.
+ * @param key Key in row, or dotted path to a nested field.
+ * @param value Value to compare against.
+ */
+export function gte<T, P extends Path<T>>(
+    key: P & PathsOf<T, Comparable>,
+    value: NonNullable<PathValue<T, P>>,
+): Filter<T> {
+    return { type: 'gte', field: key, value: value as Comparable };
+}
+
+/**
+ * Accepts rows where the field is less than the given value.
+ * @param key Key in row, or dotted path to a nested field.
+ * @param value Value to compare against.
+ */
+export function lt<T, P extends Path<T>>(
+    key: P & PathsOf<T, Comparable>,
+    value: NonNullable<PathValue<T, P>>,
+): Filter<T> {
+    return { type: 'lt', field: key, value: value as Comparable };
+}
+
+/**
+ * Accepts rows where the field is less than or equal to the given value.
+ * @param key Key in row, or dotted path to a nested field.
+ * @param value Value to compare against.
+ */
+export function lte<T, P extends Path<T>>(
+    key: P & PathsOf<T, Comparable>,
+    value: NonNullable<PathValue<T, P>>,
+): Filter<T> {
+    return { type: 'lte', field: key, value: value as Comparable };
+}
+
+/**
+ * Accepts rows where the field is between the given values (inclusive).
+ * @param key Key in row, or dotted path to a nested field.
+ * @param min Minimum value.
+ * @param max Maximum value.
+ */
+export function between<T, P extends Path<T>>(
+    key: P & PathsOf<T, Comparable>,
+    min: NonNullable<PathValue<T, P>>,
+    max: NonNullable<PathValue<T, P>>,
+): Filter<T> {
+    return {
+        type: 'between',
+        field: key,
+        min: min as Comparable,
+        max: max as Comparable,
+    };
+}
+
+/**
+ * Accepts rows where the field has one of the given values.
+ * @param key Key in row, or dotted path to a nested field.
+ * @param values Accepted values.
+ */
+export function inList<T, P extends Path<T>>(
+    key: P,
+    values: PathValue<T, P>[],
+): Filter<T> {
+    return { type: 'inList', field: key, values };
+}
+
+/**
+ * Accepts rows where the field is null or missing.
+ * @param key Key in row, or dotted path to a nested field.
+ */
+export function isNull<T, P extends Path<T>>(key: P): Filter<T> {
+    return { type: 'isNull', field: key };
+}
+
+/**
+ * Accepts rows where the field starts with the given string.
+ * @param key Key in row, or dotted path to a nested field.
+ * @param prefix Expected prefix. This is case-sensitive.
+ */
+export function startsWith<T, P extends Path<T>>(
+    key: P & PathsOf<T, string>,
+    prefix: string,
+): Filter<T> {
+    return { type: 'startsWith', field: key, value: prefix };
+}
+
+/**
+ * Accepts rows where the field contains the given value. For strings, this
+ * checks for a (case-sensitive) substring, and for arrays, an element.
+ * @param key Key in row, or dotted path to a nested field.
+ * @param value Substring or array element.
+ */
+export function includes<T, P extends Path<T>>(
+    key: P & PathsOf<T, string | readonly unknown[]>,
+    value: NonNullable<PathValue<T, P>> extends readonly (infer E)[]
+        ? E
+        : string,
+): Filter<T> {
+    return { type: 'includes', field: key, value };
+}
+
+/**
+ * Accepts rows where the field contains the given text. Unlike includes(),
+ * this is case-insensitive. The text is matched as-is, so it can come
+ * straight from e.g. a search box.
+ * @param key Key in row, or dotted path to a nested field.
+ * @param pattern Text to look for.
+ */
+export function matches<T, P extends Path<T>>(
+    key: P & PathsOf<T, string>,
+    pattern: string,
+): Filter<T> {
+    return { type: 'matches', field: key, value: pattern };
+}
+
+/**
+ * Accepts rows where a discriminated union field has the given variant.
+ * @param key Key in row, or dotted path to a nested union.
+ * @param tag Value of the union's discriminator field.
+ */
+export function variant<T, P extends Path<T>>(
+    key: P,
+    tag: VariantOf<PathValue<T, P>>,
+): Filter<T> {
+    return { type: 'variant', field: key, value: tag as string | number };
+}
+
+/**
+ * Accepts rows that are rejected by the given filter.
+ * @param filter NOT filter.
+ */
+export function not<T>(filter: Filter<T>): Filter<T> {
+    return { type: 'not', filter };
+}
+
+/**
+ * Accepts rows that are accepted by all given filters.
+ * @param filters AND filters.
+ */
+export function and<T>(...filters: Filter<T>[]): Filter<T> {
+    return { type: 'and', filters };
+}
+
+/**
+ * Accepts rows that are accepted by at least one of the given filters.
+ * @param filters OR filters.
+ */
+export function or<T>(...filters: Filter<T>[]): Filter<T> {
+    return { type: 'or', filters };
+}
+
+/**
+ * Accepts rows that the given predicate accepts. Custom filters cannot be
+ * serialized or optimized, so prefer the other filters when possible.
+ * @param predicate Predicate function.
+ */
+export function custom<T>(
+    predicate: (row: FilterRow<T>) => boolean,
+): Filter<T> {
+    return { type: 'custom', predicate };
+}
+
+/**
+ * Checks if a row is accepted by a filter.
+ * @param filter Filter to evaluate.
+ * @param row Row to evaluate the filter against.
+ */
+export function evaluateFilter<T>(
+    filter: Filter<T>,
+    row: FilterRow<T>,
+): boolean {
+    if (filter.type === 'any') {
+        return true;
+    } else if (filter.type === 'not') {
+        return !evaluateFilter(filter.filter, row);
+    } else if (filter.type === 'and') {
+        return filter.filters.every((f) => evaluateFilter(f, row));
+    } else if (filter.type === 'or') {
+        return filter.filters.some((f) => evaluateFilter(f, row));
+    } else if (filter.type === 'custom') {
+        return filter.predicate(row);
+    } else if (filter.type === 'variant') {
+        return row.variant(filter.field) === filter.value;
+    }
+
+    // Rest of the filters check value of a field
+    const value: unknown = row.get(filter.field as Path<T>);
+    switch (filter.type) {
+        case 'eq':
+            return valuesEqual(value, filter.value);
+        case 'gt':
+            return compare(value, filter.value) > 0;
+        case 'gte':
+            return compare(value, filter.value) >= 0;
+        case 'lt':
+            return compare(value, filter.value) < 0;
+        case 'lte':
+            return compare(value, filter.value) <= 0;
+        case 'between':
+            return (
+                compare(value, filter.min) >= 0 &&
+                compare(value, filter.max) <= 0
+            );
+        case 'inList':
+            return filter.values.some((item) => valuesEqual(value, item));
+        case 'isNull':
+            return value == null;
+        case 'startsWith':
+            return typeof value === 'string' && value.startsWith(filter.value);
+        case 'includes':
+            if (typeof value === 'string') {
+                return (
+                    typeof filter.value === 'string' &&
+                    value.includes(filter.value)
+                );
+            }
+            return (
+                Array.isArray(value) &&
+                value.some((item) => valuesEqual(item, filter.value))
+            );
+        case 'matches':
+            return (
+                typeof value === 'string' &&
+                value.toLowerCase().includes(filter.value.toLowerCase())
+            );
+    }
+}
+
+/**
+ * Compares a field value to a filter value.
+ * @returns Negative if the field is smaller, positive if it is larger, zero
+ * if they are equal and NaN if they cannot be compared (e.g. due to having
+ * different types).
+ */
+function compare(value: unknown, other: Comparable): number {
+    if (value instanceof Date || other instanceof Date) {
+        return value instanceof Date && other instanceof Date
+            ? value.getTime() - other.getTime()
+            : Number.NaN;
+    } else if (typeof value !== typeof other) {
+        return Number.NaN;
+    } else if (typeof value === 'number') {
+        return value - (other as number);
+    }
+    return value === other ? 0 : (value as string) < other ? -1 : 1;
+}
+
+/**
+ * Checks if two filters are structurally equal. Custom filters are equal
+ * only if they have the same predicate function.
+ */
+export function filterEquals<T>(a: Filter<T>, b: Filter<T>): boolean {
+    return valuesEqual(a, b);
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+    if (a === b) {
+        return true;
+    } else if (
+        typeof a !== 'object' ||
+        typeof b !== 'object' ||
+        a === null ||
+        b === null ||
+        Array.isArray(a) !== Array.isArray(b)
+    ) {
+        return false;
+    } else if (a instanceof Date || b instanceof Date) {
+        return (
+            a instanceof Date &&
+            b instanceof Date &&
+            a.getTime() === b.getTime()
+        );
+    } else if (a instanceof Y.AbstractType || b instanceof Y.AbstractType) {
+        // Shared types refer back to their document, so compare contents only
+        return (
+            a instanceof Y.AbstractType &&
+            b instanceof Y.AbstractType &&
+            valuesEqual(a.toJSON(), b.toJSON())
+        );
+    } else if (a instanceof Set || b instanceof Set) {
+        return (
+            a instanceof Set &&
+            b instanceof Set &&
+            a.size === b.size &&
+            Array.from(a).every((item) =>
+                Array.from(b).some((other) => valuesEqual(item, other)),
+            )
+        );
+    }
+    // Like in JSON, missing fields and fields set to undefined are equal
+    const aEntries = definedEntries(a);
+    const bRecord = b as Record<string, unknown>;
+    return (
+        aEntries.length === definedEntries(b).length &&
+        aEntries.every(([key, value]) => valuesEqual(value, bRecord[key]))
+    );
+}
+
+function definedEntries(value: object): [string, unknown][] {
+    return Object.entries(value).filter(([, v]) => v !== undefined);
+}
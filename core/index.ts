@@ -1,3 +1,9 @@
+export * from './aggregate.ts';
+export * from './filter.ts';
+export * from './join.ts';
+export * from './migrate.ts';
+export * from './operations.ts';
+export * from './search.ts';
 export * from './table.ts';
 export * from './update.ts';
 export * from './view.ts';
@@ -0,0 +1,216 @@
+import { expect, spyOn, test } from 'bun:test';
+import * as Y from 'yjs';
+import z from 'zod';
+import {
+    and,
+    between,
+    custom,
+    eq,
+    type Filter,
+    gt,
+    gte,
+    inList,
+    isNull,
+    lt,
+    or,
+} from './filter';
+import { type Row, table } from './table';
+import { remove, update, upsert } from './update';
+import { select, watch } from './view';
+
+const schema = z.object({
+    key: z.string(),
+    author: z.string(),
+    year: z.number(),
+    rating: z.number().optional(),
+    publisher: z.object({ city: z.string() }),
+});
+
+const layouts = ['root', 'nested'] as const;
+
+function tables(layout: 'root' | 'nested') {
+    return {
+        Indexed: table('books', schema, {
+            layout,
+            indexes: ['rating', ['author', 'year'], 'publisher.city'],
+        }),
+        Plain: table('books', schema, { layout }),
+    };
+}
+
+function book(key: string, author: string, year: number, rating?: number) {
+    return {
+        key,
+        author,
+        year,
+        rating,
+        publisher: { city: year < 1980 ? 'New York' : 'London' },
+    };
+}
+
+function books(Table: ReturnType<typeof tables>['Indexed']) {
+    const doc = new Y.Doc();
+    upsert(doc, Table, book('a', 'Herbert', 1965, 5));
+    upsert(doc, Table, book('b', 'Herbert', 1969));
+    upsert(doc, Table, book('c', 'Gibson', 1984, 4));
+    upsert(doc, Table, book('d', 'Gibson', 1986, 3));
+    upsert(doc, Table, book('e', 'Gibson', 1988, 4));
+    upsert(doc, Table, book('f', 'Simmons', 1989, 5));
+    return doc;
+}
+
+type Book = Row<ReturnType<typeof tables>['Indexed']>;
+
+const queries: Filter<Book>[] = [
+    eq('author', 'Gibson'),
+    and(eq('author', 'Gibson'), gt('year', 1984)),
+    and(eq('author', 'Gibson'), between('year', 1984, 1986)),
+    and(eq('author', 'Gibson'), lt('year', 1980)),
+    and(inList('author', ['Herbert', 'Simmons']), gte('year', 1969)),
+    eq('rating', 4),
+    gt('rating', 3),
+    lt('rating', 5),
+    isNull('rating'),
+    and(eq('publisher.city', 'London'), eq('rating', 4)),
+    and(eq('author', 'Gibson'), or(eq('year', 1984), eq('year', 1988))),
+    gt('author', 'H'),
+];
+
+test('Indexed queries have same results as scans', () => {
+    for (const layout of layouts) {
+        const { Indexed, Plain } = tables(layout);
+        const doc = books(Indexed);
+        for (const query of queries) {
+            const keys = (t: typeof Plain) =>
+                select(doc, t, query)
+                    .map((row) => row.key)
+                    .sort();
+            expect(keys(Indexed)).toEqual(keys(Plain));
+        }
+    }
+});
+
+test('Indexes narrow down evaluated rows', () => {
+    const { Indexed, Plain } = tables('root');
+    const doc = books(Indexed);
+    const evaluated = (t: typeof Plain, query: Filter<Book>) => {
+        let count = 0;
+        const counter = custom<Book>(() => {
+            count++;
+            return true;
+        });
+        const results = select(doc, t, and(counter, query)).length;
+        watch(doc, t, and(counter, query), 'keys', () => {});
+        return [results, count / 2];
+    };
+
+    expect(evaluated(Plain, eq('author', 'Gibson'))).toEqual([3, 6]);
+    expect(evaluated(Indexed, eq('author', 'Gibson'))).toEqual([3, 3]);
+    expect(
+        evaluated(Indexed, and(eq('author', 'Gibson'), gt('year', 1984))),
+    ).toEqual([2, 2]);
+    expect(evaluated(Indexed, eq('publisher.city', 'London'))).toEqual([4, 4]);
+    expect(evaluated(Indexed, inList('rating', [3, 4]))).toEqual([3, 3]);
+
+    // Compound index needs a condition on its first field
+    expect(evaluated(Indexed, gt('year', 1980))).toEqual([4, 6]);
+    expect(evaluated(Indexed, or(eq('rating', 3), eq('rating', 4)))).toEqual([
+        3, 6,
+    ]);
+});
+
+test('Indexes are updated incrementally', () => {
+    for (const layout of layouts) {
+        const { Indexed } = tables(layout);
+        const doc = books(Indexed);
+        const gibson = () =>
+            select(doc, Indexed, eq('author', 'Gibson'))
+                .map((row) => row.key)
+                .sort();
+        expect(gibson()).toEqual(['c', 'd', 'e']);
+
+        update(doc, Indexed, { key: 'f', author: 'Gibson' });
+        remove(doc, Indexed, 'c');
+        upsert(doc, Indexed, book('g', 'Gibson', 1993));
+        expect(gibson()).toEqual(['d', 'e', 'f', 'g']);
+
+        update(doc, Indexed, { key: 'd', publisher: { city: 'Paris' } });
+        expect(
+            select(doc, Indexed, eq('publisher.city', 'Paris')).map(
+                (row) => row.key,
+            ),
+        ).toEqual(['d']);
+
+        // Changes are visible within transactions
+        doc.transact(() => {
+            update(doc, Indexed, { key: 'g', author: 'Stephenson' });
+            expect(gibson()).toEqual(['d', 'e', 'f']);
+        });
+    }
+});
+
+test('Indexes are updated on remote changes', () => {
+    for (const layout of layouts) {
+        const { Indexed } = tables(layout);
+        const doc = books(Indexed);
+        const remote = new Y.Doc();
+        Y.applyUpdate(remote, Y.encodeStateAsUpdate(doc));
+
+        const seen: string[][] = [];
+        watch(doc, Indexed, eq('rating', 5), 'keys', (_a, _r, _c, data) => {
+            // Index must already be up-to-date when watchers are called
+            const selected = select(doc, Indexed, eq('rating', 5));
+            seen.push(selected.map((row) => row.key).sort());
+            expect(Array.from(data.keys()).sort()).toEqual(
+                seen[seen.length - 1] as string[],
+            );
+        });
+
+        upsert(remote, Indexed, book('h', 'Banks', 1987, 5));
+        remove(remote, Indexed, 'a');
+        Y.applyUpdate(doc, Y.encodeStateAsUpdate(remote));
+        expect(seen).toEqual([
+            ['a', 'f'],
+            ['f', 'h'],
+        ]);
+
+        update(remote, Indexed, { key: 'f', rating: 2 });
+        Y.applyUpdate(doc, Y.encodeStateAsUpdate(remote));
+        expect(
+            select(doc, Indexed, eq('rating', 5)).map((row) => row.key),
+        ).toEqual(['h']);
+    }
+});
+
+test('Indexes see local changes to rows from other peers', () => {
+    for (const layout of layouts) {
+        const { Indexed } = tables(layout);
+        const doc = new Y.Doc();
+        expect(select(doc, Indexed, eq('rating', 4))).toEqual([]);
+        Y.applyUpdate(doc, Y.encodeStateAsUpdate(books(Indexed)));
+        expect(
+            select(doc, Indexed, eq('rating', 4)).map((row) => row.key),
+        ).toEqual(['c', 'e']);
+
+        update(doc, Indexed, { key: 'c', rating: 2 });
+        expect(
+            select(doc, Indexed, eq('rating', 2)).map((row) => row.key),
+        ).toEqual(['c']);
+        expect(
+            select(doc, Indexed, eq('rating', 4)).map((row) => row.key),
+        ).toEqual(['e']);
+    }
+});
+
+test('Indexes stop tracking changes when document is destroyed', () => {
+    const { Indexed } = tables('root');
+    const doc = books(Indexed);
+    select(doc, Indexed, eq('rating', 4));
+    const off = spyOn(doc, 'off');
+    doc.destroy();
+    expect(off).toHaveBeenCalledWith('beforeTransaction', expect.any(Function));
+    expect(off).toHaveBeenCalledWith(
+        'beforeObserverCalls',
+        expect.any(Function),
+    );
+});
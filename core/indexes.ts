@@ -0,0 +1,328 @@
+import type * as Y from 'yjs';
+import type { Comparable, Filter } from './filter';
+import { compareValues, typeRank } from './order';
+import type { Table, TableBase } from './table';
+import {
+    allKeys,
+    type ChangeTracker,
+    filterRow,
+    isPresent,
+    trackChanges,
+} from './yjs-types';
+
+/**
+ * In-memory secondary index of a table.
+ */
+interface Index {
+    fields: readonly string[];
+
+    /**
+     * Entries sorted by their values, then by their keys.
+     */
+    entries: IndexEntry[];
+
+    /**
+     * Entries by keys of their rows.
+     */
+    rows: Map<string, IndexEntry>;
+}
+
+interface IndexEntry {
+    key: string;
+    values: unknown[];
+}
+
+/**
+ * Indexes of a table in a document.
+ */
+interface TableIndexes {
+    table: Table<TableBase>;
+    indexes: Index[];
+}
+
+interface DocIndexes {
+    tables: Map<Table<TableBase>, TableIndexes>;
+    changes: ChangeTracker;
+}
+
+const docIndexes = new WeakMap<Y.Doc, DocIndexes>();
+
+/**
+ * Gets up-to-date indexes of a table, building them if needed.
+ */
+function tableIndexes(doc: Y.Doc, table: Table<TableBase>): TableIndexes {
+    let cache = docIndexes.get(doc);
+    if (!cache) {
+        cache = { tables: new Map(), changes: trackChanges(doc) };
+        docIndexes.set(doc, cache);
+    }
+
+    const indexes = cache.tables.get(table) ?? {
+        table,
+        indexes: table.indexes.map((fields) => ({
+            fields,
+            entries: [],
+            rows: new Map(),
+        })),
+    };
+    cache.tables.set(table, indexes);
+    for (const key of cache.changes.take(table)) {
+        updateRow(doc, indexes, key);
+    }
+    return indexes;
+}
+
+function updateRow(doc: Y.Doc, indexes: TableIndexes, key: string) {
+    const present = isPresent(doc, indexes.table, key);
+    const row = filterRow(doc, indexes.table, key);
+    for (const index of indexes.indexes) {
+        const old = index.rows.get(key);
+        if (old) {
+            index.entries.splice(findEntry(index.entries, old), 1);
+            index.rows.delete(key);
+        }
+        if (present) {
+            const entry = {
+                key,
+                values: index.fields.map((field) => row.get(field as never)),
+            };
+            index.entries.splice(findEntry(index.entries, entry), 0, entry);
+            index.rows.set(key, entry);
+        }
+    }
+}
+
+/**
+ * Finds position of an entry in a sorted list of entries, or position where
+ * it should be inserted.
+ */
+function findEntry(entries: IndexEntry[], entry: IndexEntry): number {
+    return lowerBound(entries, (other) => {
+        const order = compareValueLists(other.values, entry.values);
+        return order < 0 || (order === 0 && other.key < entry.key);
+    });
+}
+
+/**
+ * Finds the first entry that is not below something.
+ * @param below Checks if an entry is below. Entries for which this returns
+ * true must come before all other entries.
+ */
+function lowerBound(
+    entries: IndexEntry[],
+    below: (entry: IndexEntry) => boolean,
+): number {
+    let start = 0;
+    let end = entries.length;
+    while (start < end) {
+        const middle = (start + end) >>> 1;
+        if (below(entries[middle] as IndexEntry)) {
+            start = middle + 1;
+        } else {
+            end = middle;
+        }
+    }
+    return start;
+}
+
+/**
+ * Compares lists of values, up to length of the shorter one.
+ */
+function compareValueLists(a: unknown[], b: unknown[]): number {
+    const length = Math.min(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+        const order = compareValues(a[i], b[i]);
+        if (order !== 0) {
+            return order;
+        }
+    }
+    return 0;
+}
+
+/**
+ * Conditions that a query has on a field.
+ */
+interface Condition {
+    /**
+     * Values that the field must have one of.
+     */
+    values?: unknown[];
+    lower?: Bound;
+    upper?: Bound;
+}
+
+interface Bound {
+    value: Comparable;
+    inclusive: boolean;
+}
+
+/**
+ * Finds conditions that rows must satisfy for a filter to accept them.
+ * Only conditions that indexes can look up are included.
+ */
+function findConditions<T>(
+    filter: Filter<T>,
+    conditions: Map<string, Condition>,
+) {
+    if (filter.type === 'and') {
+        for (const f of filter.filters) {
+            findConditions(f, conditions);
+        }
+        return;
+    } else if (
+        filter.type === 'any' ||
+        filter.type === 'not' ||
+        filter.type === 'or' ||
+        filter.type === 'custom'
+    ) {
+        return;
+    }
+
+    // Any single condition narrows down the rows enough; all of them are checked later
+    const condition = conditions.get(filter.field) ?? {};
+    conditions.set(filter.field, condition);
+    switch (filter.type) {
+        case 'eq':
+            if (typeRank(filter.value) !== 6) {
+                condition.values ??= [filter.value];
+            }
+            break;
+        case 'inList':
+            if (filter.values.every((value) => typeRank(value) !== 6)) {
+                condition.values ??= filter.values;
+            }
+            break;
+        case 'isNull':
+            condition.values ??= [undefined, null];
+            break;
+        case 'gt':
+        case 'gte':
+            condition.lower ??= {
+                value: filter.value,
+                inclusive: filter.type === 'gte',
+            };
+            break;
+        case 'lt':
+        case 'lte':
+            condition.upper ??= {
+                value: filter.value,
+                inclusive: filter.type === 'lte',
+            };
+            break;
+        case 'between':
+            condition.lower ??= { value: filter.min, inclusive: true };
+            condition.upper ??= { value: filter.max, inclusive: true };
+            break;
+    }
+}
+
+/**
+ * Finds keys of rows that might be accepted by a filter. If the table has
+ * indexes that can be used with the filter, only the rows found from the
+ * best one are included. Otherwise, all rows are included.
+ * @param doc Database to operate on.
+ * @param table Table to read from.
+ * @param filter Filter that the rows will be evaluated against.
+ * @returns Keys of the rows.
+ */
+export function candidateKeys<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    filter: Filter<T>,
+): Iterable<string> {
+    if (table.indexes.length === 0) {
+        return allKeys(doc, table);
+    }
+    const conditions = new Map<string, Condition>();
+    findConditions(filter, conditions);
+
+    // Prefer indexes with most equality conditions, then ones with a range condition after them
+    let best = -1;
+    let bestScore = 0;
+    table.indexes.forEach((fields, i) => {
+        let score = 0;
+        for (const field of fields) {
+            const condition = conditions.get(field);
+            if (condition?.values) {
+                score += 2;
+                continue;
+            } else if (condition?.lower || condition?.upper) {
+                score += 1;
+            }
+            break;
+        }
+        if (score > bestScore) {
+            best = i;
+            bestScore = score;
+        }
+    });
+    if (best === -1) {
+        return allKeys(doc, table); // No usable indexes
+    }
+
+    const { indexes } = tableIndexes(doc, table as unknown as Table<TableBase>);
+    const index = indexes[best] as Index;
+    const keys: string[] = [];
+    const scan = (prefix: unknown[]) => {
+        const field = index.fields[prefix.length];
+        const condition =
+            field !== undefined ? conditions.get(field) : undefined;
+        if (condition?.values) {
+            // Equality condition; look up each value separately
+            for (const value of condition.values) {
+                scan([...prefix, value]);
+            }
+        } else {
+            keys.push(...scanRange(index, prefix, condition ?? {}));
+        }
+    };
+    scan([]);
+    return keys;
+}
+
+/**
+ * Finds keys of entries that have the given values for first fields of
+ * index, and optionally a value within a range for the field after them.
+ */
+function scanRange(index: Index, prefix: unknown[], range: Condition) {
+    const bound = range.lower ?? range.upper;
+    const isBelow = (value: unknown) => {
+        if (!bound) {
+            return false;
+        } else if (typeRank(value) !== typeRank(bound.value)) {
+            return typeRank(value) < typeRank(bound.value);
+        }
+        const order = range.lower ? compareValues(value, range.lower.value) : 1;
+        return order < 0 || (order === 0 && !range.lower?.inclusive);
+    };
+    const isAbove = (value: unknown) => {
+        if (!bound) {
+            return false;
+        } else if (typeRank(value) !== typeRank(bound.value)) {
+            return true; // Values of other types are never in range
+        }
+        const order = range.upper
+            ? compareValues(value, range.upper.value)
+            : -1;
+        return order > 0 || (order === 0 && !range.upper?.inclusive);
+    };
+
+    const keys: string[] = [];
+    const start = lowerBound(index.entries, (entry) => {
+        const order = compareValueLists(entry.values, prefix);
+        return (
+            order < 0 || (order === 0 && isBelow(entry.values[prefix.length]))
+        );
+    });
+    for (let i = start; i < index.entries.length; i++) {
+        const entry = index.entries[i] as IndexEntry;
+        if (
+            compareValueLists(entry.values, prefix) !== 0 ||
+            isAbove(entry.values[prefix.length])
+        ) {
+            break; // Past the end of range
+        }
+        keys.push(entry.key);
+    }
+    return keys;
+}
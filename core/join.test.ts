@@ -0,0 +1,191 @@
+import { expect, test } from 'bun:test';
+import * as Y from 'yjs';
+import z from 'zod';
+import { eq, gt } from './filter';
+import { join, watchJoin } from './join';
+import { type Row, table } from './table';
+import { remove, update, upsert } from './update';
+
+const NoteTable = table(
+    'notes',
+    z.object({
+        key: z.string(),
+        title: z.string(),
+        archived: z.boolean(),
+    }),
+);
+type Note = Row<typeof NoteTable>;
+
+const CommentTable = table(
+    'comments',
+    z.object({
+        key: z.string(),
+        text: z.string(),
+        score: z.number(),
+        target: z.object({ noteKey: z.string().optional() }),
+    }),
+);
+type Comment = Row<typeof CommentTable>;
+
+function comment(key: string, noteKey: string | undefined, score = 0) {
+    return { key, text: `Comment ${key}`, score, target: { noteKey } };
+}
+
+function notes() {
+    const doc = new Y.Doc();
+    upsert(doc, NoteTable, { key: 'n1', title: 'First', archived: false });
+    upsert(doc, NoteTable, { key: 'n2', title: 'Second', archived: true });
+    upsert(doc, NoteTable, { key: 'n3', title: 'Third', archived: false });
+    upsert(doc, CommentTable, comment('c1', 'n1', 1));
+    upsert(doc, CommentTable, comment('c2', 'n1', 5));
+    upsert(doc, CommentTable, comment('c3', 'n2', 3));
+    upsert(doc, CommentTable, comment('c4', undefined));
+    upsert(doc, CommentTable, comment('c5', 'missing'));
+    return doc;
+}
+
+const on = { left: 'target.noteKey', right: 'key' } as const;
+
+const keys = (pairs: [Comment, Note][]) =>
+    pairs.map(([comment, note]) => `${comment.key}-${note.key}`).sort();
+
+test('Joins', () => {
+    const doc = notes();
+    expect(keys(join(doc, CommentTable, NoteTable, on))).toEqual([
+        'c1-n1',
+        'c2-n1',
+        'c3-n2',
+    ]);
+    expect(
+        keys(
+            join(doc, CommentTable, NoteTable, on, {
+                left: gt('score', 2),
+                right: eq('archived', false),
+            }),
+        ),
+    ).toEqual(['c2-n1']);
+    expect(
+        join(doc, NoteTable, CommentTable, {
+            left: 'key',
+            right: 'target.noteKey',
+        })
+            .map(([note, comment]) => `${note.key}-${comment.key}`)
+            .sort(),
+    ).toEqual(['n1-c1', 'n1-c2', 'n2-c3']);
+
+    // @ts-expect-error No such field
+    join(doc, CommentTable, NoteTable, { left: 'noteKey', right: 'key' });
+});
+
+test('Watched joins are updated incrementally', () => {
+    const doc = notes();
+    let last: Record<string, string[]> = {};
+    let visible: [Comment, Note][] = [];
+    const unwatch = watchJoin(
+        doc,
+        CommentTable,
+        NoteTable,
+        on,
+        'content',
+        (added, removed, changed, visibleData) => {
+            last = {
+                added: keys(added),
+                removed: keys(removed),
+                changed: keys(changed),
+            };
+            visible = Array.from(visibleData.values());
+        },
+        { right: eq('archived', false) },
+    );
+    const expectVisible = () =>
+        expect(keys(visible)).toEqual(
+            keys(
+                join(doc, CommentTable, NoteTable, on, {
+                    right: eq('archived', false),
+                }),
+            ),
+        );
+    expectVisible();
+
+    // Rows added to either side
+    upsert(doc, CommentTable, comment('c6', 'n3'));
+    expect(last).toEqual({ added: ['c6-n3'], removed: [], changed: [] });
+    upsert(doc, NoteTable, { key: 'missing', title: 'Found', archived: false });
+    expect(last).toEqual({ added: ['c5-missing'], removed: [], changed: [] });
+    expectVisible();
+
+    // Rows changed without changing relations
+    update(doc, NoteTable, { key: 'n1', title: 'Renamed' });
+    expect(last).toEqual({
+        added: [],
+        removed: [],
+        changed: ['c1-n1', 'c2-n1'],
+    });
+    expect(visible.find(([c]) => c.key === 'c1')?.[1].title).toBe('Renamed');
+
+    // Rows related to other rows
+    update(doc, CommentTable, { key: 'c1', target: { noteKey: 'n3' } });
+    expect(last).toEqual({ added: ['c1-n3'], removed: ['c1-n1'], changed: [] });
+    expectVisible();
+
+    // Rows that stop or start matching their queries
+    update(doc, NoteTable, { key: 'n3', archived: true });
+    expect(last).toEqual({
+        added: [],
+        removed: ['c1-n3', 'c6-n3'],
+        changed: [],
+    });
+    expectVisible();
+
+    // Rows removed from either side
+    remove(doc, CommentTable, 'c2');
+    expect(last).toEqual({ added: [], removed: ['c2-n1'], changed: [] });
+    remove(doc, NoteTable, 'missing');
+    expect(last).toEqual({ added: [], removed: ['c5-missing'], changed: [] });
+    expectVisible();
+
+    unwatch();
+    remove(doc, CommentTable, 'c6');
+    expect(last).toEqual({ added: [], removed: ['c5-missing'], changed: [] });
+});
+
+test('Watched joins deliver changes of a transaction in one call', () => {
+    const doc = notes();
+    const calls: [Record<string, string[]>, unknown][] = [];
+    watchJoin(
+        doc,
+        CommentTable,
+        NoteTable,
+        on,
+        'content',
+        (added, removed, changed, _visible, context) => {
+            calls.push([
+                {
+                    added: keys(added),
+                    removed: keys(removed),
+                    changed: keys(changed),
+                },
+                context?.origin,
+            ]);
+        },
+    );
+    expect(calls).toHaveLength(1); // Initial pairs
+
+    doc.transact(() => {
+        upsert(doc, NoteTable, { key: 'n4', title: 'Fourth', archived: false });
+        upsert(doc, CommentTable, comment('c6', 'n4'));
+        update(doc, NoteTable, { key: 'n1', title: 'Renamed' });
+        update(doc, CommentTable, { key: 'c3', target: { noteKey: 'n4' } });
+        remove(doc, CommentTable, 'c6');
+    }, 'import');
+    expect(calls.slice(1)).toEqual([
+        [
+            {
+                added: ['c3-n4'],
+                removed: ['c3-n2'],
+                changed: ['c1-n1', 'c2-n1'],
+            },
+            'import',
+        ],
+    ]);
+});
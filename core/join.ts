@@ -0,0 +1,288 @@
+import type * as Y from 'yjs';
+import type { Filter, PathsOf, Scalar } from './filter';
+import { any } from './filter';
+import { rowKey } from './keys';
+import { valueAt } from './order';
+import type { Table, TableBase } from './table';
+import { type ChangeContext, select, type WatchLevel, watch } from './view';
+import { changeContext } from './yjs-types';
+
+/**
+ * Relation between rows of two tables. A left row and a right row are joined
+ * when values of these fields are equal. Rows with missing or null values
+ * are never joined.
+ *
+ * For example, to join comments to the notes they refer to, use
+ * `{ left: 'noteKey', right: 'key' }`.
+ */
+export interface JoinOn<L, R> {
+    /**
+     * Field of left rows, or a dotted path to a nested field.
+     */
+    left: PathsOf<L, Scalar>;
+
+    /**
+     * Field of right rows, or a dotted path to a nested field.
+     */
+    right: PathsOf<R, Scalar>;
+}
+
+/**
+ * Queries that rows of each side of a join must match. Rows of sides that
+ * have no query are all included.
+ */
+export interface JoinFilters<L, R> {
+    left?: Filter<L>;
+    right?: Filter<R>;
+}
+
+/**
+ * Selects pairs of rows from two tables that are related to each other and
+ * match the given queries. Rows that are not related to any rows of the
+ * other table are not included.
+ * @param doc Database to operate on.
+ * @param left Table to read left rows from.
+ * @param right Table to read right rows from.
+ * @param on Fields that relate the rows to each other.
+ * @param filters Queries that the rows of each table are evaluated against.
+ * @returns A list of left and right row pairs. Empty list if there are none.
+ */
+export function join<L extends TableBase, R extends TableBase>(
+    doc: Y.Doc,
+    left: Table<L>,
+    right: Table<R>,
+    on: JoinOn<L, R>,
+    filters: JoinFilters<L, R> = {},
+): [L, R][] {
+    const leftPath = (on.left as string).split('.');
+    const rightPath = (on.right as string).split('.');
+    const rightRows = new Map<unknown, R[]>();
+    for (const row of select(doc, right, filters.right ?? any())) {
+        const value = valueAt(row, rightPath);
+        if (value != null) {
+            rightRows.set(value, [...(rightRows.get(value) ?? []), row]);
+        }
+    }
+
+    const pairs: [L, R][] = [];
+    for (const row of select(doc, left, filters.left ?? any())) {
+        const value = valueAt(row, leftPath);
+        for (const other of value != null ? (rightRows.get(value) ?? []) : []) {
+            pairs.push([row, other]);
+        }
+    }
+    return pairs;
+}
+
+/**
+ * Rows of one side of a join, indexed by the field they are joined on.
+ */
+interface JoinSide<T extends TableBase> {
+    table: Table<T>;
+    path: string[];
+    rows: Map<string, T>;
+    keysByValue: Map<unknown, Set<string>>;
+}
+
+/**
+ * Watches for changes in pairs of related rows from two tables.
+ * @param doc Database to operate on.
+ * @param left Table to read left rows from.
+ * @param right Table to read right rows from.
+ * @param on Fields that relate the rows to each other.
+ * @param level Watcher change detection level. See watch().
+ * @param watcher Watcher function. This is called with lists of pairs that
+ * were added, removed or changed. Pairs are added and removed as rows of
+ * either table are added, removed or changed to be related to different
+ * rows. When a row changes but stays related to the same rows, its pairs are
+ * reported as changed. As fourth argument, all visible pairs are provided
+ * by keys of their rows (JSON-encoded list of left and right key) as a
+ * mutable Map. The last argument describes the transaction that changed
+ * the pairs (see watch()). Like with watch(), changes made in one Yjs
+ * transaction are delivered in one call, even if they affect both tables.
+ * @param filters Queries that the rows of each table are evaluated against.
+ * @returns Function that, when called, stops this watch operation.
+ */
+export function watchJoin<L extends TableBase, R extends TableBase>(
+    doc: Y.Doc,
+    left: Table<L>,
+    right: Table<R>,
+    on: JoinOn<L, R>,
+    level: WatchLevel,
+    watcher: (
+        added: [L, R][],
+        removed: [L, R][],
+        changed: [L, R][],
+        visibleData: Map<string, [L, R]>,
+        context: ChangeContext | null,
+    ) => void,
+    filters: JoinFilters<L, R> = {},
+): () => void {
+    const visibleData: Map<string, [L, R]> = new Map();
+    const leftSide: JoinSide<L> = {
+        table: left,
+        path: (on.left as string).split('.'),
+        rows: new Map(),
+        keysByValue: new Map(),
+    };
+    const rightSide: JoinSide<R> = {
+        table: right,
+        path: (on.right as string).split('.'),
+        rows: new Map(),
+        keysByValue: new Map(),
+    };
+
+    // Changes of both sides are collected while a transaction is in progress, and delivered together after it
+    const pendingAdded = new Map<string, [L, R]>();
+    const pendingRemoved = new Map<string, [L, R]>();
+    const pendingChanged = new Map<string, [L, R]>();
+    const addPair = (pairKey: string, pair: [L, R]) => {
+        visibleData.set(pairKey, pair);
+        if (pendingRemoved.has(pairKey)) {
+            pendingRemoved.delete(pairKey); // Removed and re-added at once
+            pendingChanged.set(pairKey, pair);
+        } else {
+            pendingAdded.set(pairKey, pair);
+        }
+    };
+    const removePair = (pairKey: string, pair: [L, R]) => {
+        visibleData.delete(pairKey);
+        pendingChanged.delete(pairKey);
+        if (pendingAdded.has(pairKey)) {
+            pendingAdded.delete(pairKey); // Watcher never saw it
+        } else if (!pendingRemoved.has(pairKey)) {
+            pendingRemoved.set(pairKey, pair);
+        }
+    };
+    const changePair = (pairKey: string, pair: [L, R]) => {
+        visibleData.set(pairKey, pair);
+        if (pendingAdded.has(pairKey)) {
+            pendingAdded.set(pairKey, pair);
+        } else {
+            pendingChanged.set(pairKey, pair);
+        }
+    };
+    const deliver = (context: ChangeContext | null) => {
+        const added = Array.from(pendingAdded.values());
+        const removed = Array.from(pendingRemoved.values());
+        const changed = Array.from(pendingChanged.values());
+        pendingAdded.clear();
+        pendingRemoved.clear();
+        pendingChanged.clear();
+        if (added.length + removed.length + changed.length !== 0) {
+            watcher(added, removed, changed, visibleData, context);
+        }
+    };
+
+    const watchSide = <S extends TableBase, O extends TableBase>(
+        side: JoinSide<S>,
+        other: JoinSide<O>,
+        query: Filter<S> | undefined,
+        pairOf: (
+            key: string,
+            row: S,
+            otherKey: string,
+        ) => [string, [L, R]] | undefined,
+    ) => {
+        // Finds pairs of a row, whether they are currently visible or not
+        const pairsOf = (key: string, row: S) => {
+            const value = valueAt(row, side.path);
+            const otherKeys = value != null ? other.keysByValue.get(value) : [];
+            return Array.from(otherKeys ?? [], (otherKey) =>
+                pairOf(key, row, otherKey),
+            ).filter((pair) => pair !== undefined);
+        };
+        const index = (key: string, row: S | undefined) => {
+            const old = side.rows.get(key);
+            const oldValue = old && valueAt(old, side.path);
+            if (oldValue != null) {
+                side.keysByValue.get(oldValue)?.delete(key);
+                if (side.keysByValue.get(oldValue)?.size === 0) {
+                    side.keysByValue.delete(oldValue);
+                }
+            }
+            side.rows.delete(key);
+            const value = row && valueAt(row, side.path);
+            if (row) {
+                side.rows.set(key, row);
+            }
+            if (value != null) {
+                const keys = side.keysByValue.get(value) ?? new Set();
+                keys.add(key);
+                side.keysByValue.set(value, keys);
+            }
+        };
+
+        return watch(
+            doc,
+            side.table,
+            query ?? any(),
+            level,
+            (addedRows, removedRows, changedRows) => {
+                for (const row of removedRows) {
+                    const key = rowKey(side.table, row);
+                    for (const [pairKey, pair] of pairsOf(key, row)) {
+                        removePair(pairKey, pair);
+                    }
+                    index(key, undefined);
+                }
+                for (const row of changedRows) {
+                    const key = rowKey(side.table, row);
+                    const old = side.rows.get(key) as S;
+                    if (valueAt(old, side.path) === valueAt(row, side.path)) {
+                        // Still related to same rows
+                        index(key, row);
+                        for (const [pairKey, pair] of pairsOf(key, row)) {
+                            changePair(pairKey, pair);
+                        }
+                        continue;
+                    }
+                    for (const [pairKey, pair] of pairsOf(key, old)) {
+                        removePair(pairKey, pair);
+                    }
+                    index(key, row);
+                    for (const [pairKey, pair] of pairsOf(key, row)) {
+                        addPair(pairKey, pair);
+                    }
+                }
+                for (const row of addedRows) {
+                    const key = rowKey(side.table, row);
+                    index(key, row);
+                    for (const [pairKey, pair] of pairsOf(key, row)) {
+                        addPair(pairKey, pair);
+                    }
+                }
+            },
+        );
+    };
+
+    const unwatchLeft = watchSide(
+        leftSide,
+        rightSide,
+        filters.left,
+        (key, row, otherKey) => {
+            const other = rightSide.rows.get(otherKey);
+            return other && [JSON.stringify([key, otherKey]), [row, other]];
+        },
+    );
+    const unwatchRight = watchSide(
+        rightSide,
+        leftSide,
+        filters.right,
+        (key, row, otherKey) => {
+            const other = leftSide.rows.get(otherKey);
+            return other && [JSON.stringify([otherKey, key]), [other, row]];
+        },
+    );
+    deliver(null);
+
+    // Sides deliver their changes after transactions first, since their watchers were added first
+    const flush = (transaction: Y.Transaction) =>
+        deliver(changeContext(doc, transaction));
+    doc.on('afterTransaction', flush);
+    return () => {
+        doc.off('afterTransaction', flush);
+        unwatchLeft();
+        unwatchRight();
+    };
+}
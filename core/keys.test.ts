@@ -0,0 +1,112 @@
+import { expect, test } from 'bun:test';
+import * as Y from 'yjs';
+import z from 'zod';
+import { any } from './filter';
+import { table } from './table';
+import { insert, remove, update, upsert } from './update';
+import { getKey, select, watchKey } from './view';
+
+const schema = z.object({
+    key: z.string(),
+    title: z.string(),
+});
+
+test('Insert with generated UUID', () => {
+    const doc = new Y.Doc();
+    const UuidTable = table('uuids', schema);
+    const key = insert(doc, UuidTable, { title: 'hello' });
+    expect(key).toMatch(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[0-9a-f]{4}-[0-9a-f]{12}$/,
+    );
+    expect(getKey(doc, UuidTable, key)).toEqual({ key, title: 'hello' });
+});
+
+test('Insert with generated ULID', () => {
+    const doc = new Y.Doc();
+    const UlidTable = table('ulids', schema, { keyStrategy: 'ulid' });
+    const keys: string[] = [];
+    for (let i = 0; i < 100; i++) {
+        keys.push(insert(doc, UlidTable, { title: `row ${i}` }));
+    }
+    for (const key of keys) {
+        expect(key).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+    }
+
+    // Keys are unique and sort in insertion order
+    expect(new Set(keys).size).toBe(keys.length);
+    expect([...keys].sort()).toEqual(keys);
+});
+
+test('Insert with custom key strategy', () => {
+    const doc = new Y.Doc();
+    let counter = 0;
+    const CustomTable = table('custom', schema, {
+        keyStrategy: () => `row-${++counter}`,
+    });
+    expect(insert(doc, CustomTable, { title: 'first' })).toBe('row-1');
+    expect(insert(doc, CustomTable, { title: 'second' })).toBe('row-2');
+    expect(getKey(doc, CustomTable, 'row-2')?.title).toBe('second');
+});
+
+const MembershipTable = table(
+    'memberships',
+    z.object({
+        workspaceId: z.string(),
+        userId: z.number(),
+        role: z.string(),
+    }),
+    { primaryKey: ['workspaceId', 'userId'] },
+);
+
+test('Composite primary keys', () => {
+    const doc = new Y.Doc();
+    upsert(doc, MembershipTable, {
+        workspaceId: 'w1',
+        userId: 1,
+        role: 'admin',
+    });
+    upsert(doc, MembershipTable, {
+        workspaceId: 'w1',
+        userId: 2,
+        role: 'member',
+    });
+    expect(getKey(doc, MembershipTable, ['w1', 1])).toEqual({
+        workspaceId: 'w1',
+        userId: 1,
+        role: 'admin',
+    });
+    expect(doc.getMap('memberships').has('["w1",2]')).toBe(true);
+
+    update(doc, MembershipTable, {
+        workspaceId: 'w1',
+        userId: 2,
+        role: 'admin',
+    });
+    expect(getKey(doc, MembershipTable, ['w1', 2])?.role).toBe('admin');
+
+    const values: (string | undefined)[] = [];
+    watchKey(doc, MembershipTable, ['w1', 2], 'content', (row) => {
+        values.push(row?.role);
+    });
+    remove(doc, MembershipTable, ['w1', 2]);
+    expect(values).toEqual(['admin', undefined]);
+    expect(select(doc, MembershipTable, any())).toHaveLength(1);
+});
+
+test('Numeric primary keys', () => {
+    const doc = new Y.Doc();
+    const NumberTable = table(
+        'numbers',
+        z.object({ id: z.number(), title: z.string() }),
+        { primaryKey: ['id'] },
+    );
+    upsert(doc, NumberTable, { id: 42, title: 'answer' });
+    expect(getKey(doc, NumberTable, 42)).toEqual({ id: 42, title: 'answer' });
+    expect(select(doc, NumberTable, any())).toEqual([
+        { id: 42, title: 'answer' },
+    ]);
+
+    // Generated keys are strings, so they can't be inserted to this table
+    // @ts-expect-error
+    expect(() => insert(doc, NumberTable, { title: 'generated' })).toThrow();
+});
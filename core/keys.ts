@@ -0,0 +1,120 @@
+import type { KeyStrategy, Table, TableBase } from './table';
+
+/**
+ * Encodes a primary key to a string that is used as key of the table's
+ * Y.Map. Single string keys are used as-is, everything else is JSON-encoded.
+ * @param table Table that the key belongs to.
+ * @param key Value of the key field, or a tuple of them for composite keys.
+ */
+export function encodeKey<T extends TableBase>(
+    table: Table<T>,
+    key: unknown,
+): string {
+    return table.primaryKey.length === 1 && typeof key === 'string'
+        ? key
+        : JSON.stringify(key);
+}
+
+/**
+ * Gets the encoded primary key of a row.
+ * @param table Table that the row belongs to.
+ * @param row Row, or an update to it, with values for all key fields.
+ */
+export function rowKey<T extends TableBase>(table: Table<T>, row: T): string {
+    const values = table.primaryKey.map((field) => row[field]);
+    return encodeKey(table, values.length === 1 ? values[0] : values);
+}
+
+/**
+ * Decodes an encoded primary key to values of key fields.
+ * @returns Key fields, or an empty object if the key could not be decoded.
+ */
+export function decodeKey<T extends TableBase>(
+    table: Table<T>,
+    key: string,
+): Record<string, unknown> {
+    const fields = table.primaryKey;
+    if (fields.length === 1) {
+        const field = fields[0] as string;
+        // Strings (and things that parse as them) are stored without encoding
+        const t = table.type.shape[field];
+        if (!t || t.safeParse(key).success) {
+            return { [field]: key };
+        }
+        const value = parseJson(key);
+        return value === undefined ? {} : { [field]: value };
+    }
+    const values = parseJson(key);
+    if (!Array.isArray(values)) {
+        return {}; // Not written with this primary key
+    }
+    return Object.fromEntries(fields.map((field, i) => [field, values[i]]));
+}
+
+function parseJson(value: string): unknown {
+    try {
+        return JSON.parse(value);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Generates a new row key.
+ * @param strategy How the key should be generated.
+ */
+export function generateKey(strategy: KeyStrategy): string {
+    if (strategy === 'uuid') {
+        return crypto.randomUUID();
+    } else if (strategy === 'ulid') {
+        return ulid();
+    }
+    return strategy();
+}
+
+// Crockford's base32, as used by ULIDs
+const ENCODING = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+let lastTime = -1;
+let lastRandom: number[] = [];
+
+/**
+ * Generates a ULID: a 48-bit millisecond timestamp followed by 80 random
+ * bits, encoded so that keys sort by their creation time. Keys generated
+ * within the same millisecond increment the random part, so they are sorted
+ * too.
+ */
+function ulid(): string {
+    const time = Date.now();
+    let random: number[];
+    if (time <= lastTime) {
+        // Same millisecond (or clock went backwards), keep monotonic
+        random = increment(lastRandom);
+    } else {
+        random = Array.from(
+            crypto.getRandomValues(new Uint8Array(16)),
+            (byte) => byte % 32,
+        );
+        lastTime = time;
+    }
+    lastRandom = random;
+
+    let timePart = '';
+    for (let i = 0, t = lastTime; i < 10; i++, t = Math.floor(t / 32)) {
+        timePart = ENCODING[t % 32] + timePart;
+    }
+    return timePart + random.map((digit) => ENCODING[digit]).join('');
+}
+
+function increment(digits: number[]): number[] {
+    const result = [...digits];
+    for (let i = result.length - 1; i >= 0; i--) {
+        if (result[i] === 31) {
+            result[i] = 0; // Carry to next digit
+        } else {
+            result[i] = (result[i] ?? 0) + 1;
+            break;
+        }
+    }
+    return result;
+}
@@ -0,0 +1,178 @@
+import { expect, test } from 'bun:test';
+import * as Y from 'yjs';
+import z from 'zod';
+import { any, eq } from './filter';
+import { convertToNestedLayout } from './migrate';
+import { type Row, table } from './table';
+import { remove, update, upsert } from './update';
+import { getKey, select, watch, watchKey } from './view';
+
+const schema = z.object({
+    key: z.string(),
+    title: z.string(),
+    nested: z.object({
+        value: z.string(),
+        deeper: z.object({ flag: z.boolean() }),
+    }),
+    rawXml: z.instanceof(Y.XmlFragment).meta({ syncAs: Y.XmlFragment }),
+});
+
+const NestedTable = table('nested', schema, { layout: 'nested' });
+const RootTable = table('nested', schema);
+
+function createTestRow(key: string) {
+    return {
+        key,
+        title: 'hello',
+        nested: { value: 'world', deeper: { flag: true } },
+        rawXml: new Y.XmlFragment(),
+    };
+}
+
+test('Nested layout read and write', () => {
+    const doc = new Y.Doc();
+    upsert(doc, NestedTable, createTestRow('1'));
+    upsert(doc, NestedTable, { ...createTestRow('2'), title: 'another' });
+
+    expect(select(doc, NestedTable, any())).toHaveLength(2);
+    expect(select(doc, NestedTable, eq('title', 'another'))).toHaveLength(1);
+
+    update(doc, NestedTable, {
+        key: '1',
+        nested: { deeper: { flag: false } },
+    });
+    const row = getKey(doc, NestedTable, '1');
+    expect(row?.nested).toEqual({ value: 'world', deeper: { flag: false } });
+    expect(row?.rawXml.doc).toBe(doc);
+
+    // Only one root-level type is used
+    expect(Array.from(doc.share.keys())).toEqual(['nested']);
+});
+
+test('Nested layout ignores updates to missing rows', () => {
+    const doc = new Y.Doc();
+    update(doc, NestedTable, { key: '1', title: 'updated' });
+    expect(doc.getMap('nested').size).toBe(0);
+    expect(getKey(doc, NestedTable, '1')).toBeNull();
+});
+
+const OptionalSchema = z.object({
+    key: z.string(),
+    a: z.string().optional(),
+    b: z.string().optional(),
+});
+
+test('Concurrent creation of a row in both layouts', () => {
+    const Root = table('optionals', OptionalSchema);
+    const Nested = table('optionals', OptionalSchema, { layout: 'nested' });
+
+    const doc1 = new Y.Doc();
+    const doc2 = new Y.Doc();
+    upsert(doc1, Root, { key: '1', a: 'x' });
+    upsert(doc2, Root, { key: '1', b: 'y' });
+    Y.applyUpdate(doc1, Y.encodeStateAsUpdate(doc2));
+    expect(getKey(doc1, Root, '1')).toEqual({ key: '1', a: 'x', b: 'y' });
+
+    // In 'nested' layout, one of the rows replaces the other
+    const doc3 = new Y.Doc();
+    const doc4 = new Y.Doc();
+    upsert(doc3, Nested, { key: '1', a: 'x' });
+    upsert(doc4, Nested, { key: '1', b: 'y' });
+    Y.applyUpdate(doc3, Y.encodeStateAsUpdate(doc4));
+    const row = getKey(doc3, Nested, '1');
+    expect(row).not.toBeNull();
+    expect(row?.a === undefined || row?.b === undefined).toBe(true);
+});
+
+test('Updates before creation of a row in both layouts', () => {
+    const write = (layout: 'root' | 'nested') => {
+        const Table = table('optionals', OptionalSchema, { layout });
+        const doc = new Y.Doc();
+        update(doc, Table, { key: '1', b: 'y' });
+        upsert(doc, Table, { key: '1', a: 'x' });
+        return getKey(doc, Table, '1');
+    };
+    expect(write('root')).toEqual({ key: '1', a: 'x', b: 'y' });
+    expect(write('nested')).toEqual({ key: '1', a: 'x' });
+});
+
+test('Nested layout removal deletes row data', () => {
+    const doc = new Y.Doc();
+    upsert(doc, NestedTable, createTestRow('1'));
+    remove(doc, NestedTable, '1');
+    expect(getKey(doc, NestedTable, '1')).toBeNull();
+    expect(doc.getMap('nested').size).toBe(0);
+
+    // Upserting again creates a fresh row
+    upsert(doc, NestedTable, { ...createTestRow('1'), title: 'again' });
+    expect(getKey(doc, NestedTable, '1')?.title).toBe('again');
+});
+
+test('Nested layout content watching', () => {
+    const doc = new Y.Doc();
+    upsert(doc, NestedTable, createTestRow('1'));
+
+    const changedRows: Row<typeof NestedTable>[] = [];
+    let removeCount = 0;
+    watch(doc, NestedTable, any(), 'content', (_added, removed, changed) => {
+        changedRows.push(...changed);
+        removeCount += removed.length;
+    });
+
+    update(doc, NestedTable, {
+        key: '1',
+        nested: { deeper: { flag: false } },
+    });
+    expect(changedRows).toHaveLength(1);
+    expect(changedRows[0]?.nested.deeper.flag).toBe(false);
+
+    // Raw Yjs types are not observed at 'content' level
+    getKey(doc, NestedTable, '1')?.rawXml.insert(0, [new Y.XmlText('hi')]);
+    expect(changedRows).toHaveLength(1);
+
+    remove(doc, NestedTable, '1');
+    expect(removeCount).toBe(1);
+});
+
+test('Nested layout key watching survives re-creation', () => {
+    const doc = new Y.Doc();
+    const values: (string | null)[] = [];
+    watchKey(doc, NestedTable, '1', 'deep', (row) => {
+        values.push(row?.title ?? null);
+    });
+
+    upsert(doc, NestedTable, createTestRow('1'));
+    remove(doc, NestedTable, '1');
+    upsert(doc, NestedTable, createTestRow('1'));
+    update(doc, NestedTable, { key: '1', title: 'updated' });
+    getKey(doc, NestedTable, '1')?.rawXml.insert(0, [new Y.XmlText('hi')]);
+    expect(values).toEqual([
+        null,
+        'hello',
+        null,
+        'hello',
+        'updated',
+        'updated',
+    ]);
+});
+
+test('Converting to nested layout', () => {
+    const doc = new Y.Doc();
+    upsert(doc, RootTable, createTestRow('1'));
+    upsert(doc, RootTable, { ...createTestRow('2'), title: 'another' });
+    getKey(doc, RootTable, '1')?.rawXml.insert(0, [new Y.XmlText('hi')]);
+
+    // Incomplete rows are left as-is
+    doc.getMap('nested').set('3', true);
+
+    expect(convertToNestedLayout(doc, NestedTable)).toEqual(['3']);
+    expect(select(doc, NestedTable, any())).toHaveLength(2);
+    const row = getKey(doc, NestedTable, '1');
+    expect(row?.nested).toEqual({ value: 'world', deeper: { flag: true } });
+    expect(row?.rawXml.toString()).toBe('hi');
+
+    // Old data has been cleared
+    expect(doc.getMap('nested.1').size).toBe(0);
+    expect(doc.getMap('nested.1.nested').size).toBe(0);
+    expect(doc.getXmlFragment('nested.1.rawXml').length).toBe(0);
+});
@@ -0,0 +1,227 @@
+import { expect, test } from 'bun:test';
+import * as Y from 'yjs';
+import z from 'zod';
+import { any, eq } from './filter';
+import {
+    backfillDefaults,
+    findDefaultedRows,
+    migrateRows,
+    schemaVersions,
+} from './migrate';
+import { table } from './table';
+import { update, upsert } from './update';
+import { getKey, select } from './view';
+
+const PersonV1 = table(
+    'person',
+    z.object({
+        key: z.string(),
+        name: z.string(),
+    }),
+);
+
+const PersonV2 = table(
+    'person',
+    z.object({
+        key: z.string(),
+        fullName: z.string(),
+        age: z.number(),
+    }),
+    {
+        version: 2,
+        migrations: {
+            2: ({ name, ...row }) => ({ ...row, fullName: name, age: 0 }),
+        },
+    },
+);
+
+const PersonV3 = table(
+    'person',
+    z.object({
+        key: z.string(),
+        fullName: z.string(),
+        age: z.number(),
+        nickname: z.string().optional(),
+    }),
+    {
+        version: 3,
+        migrations: PersonV2.migrations, // Version 3 needs no migration
+    },
+);
+
+test('Old rows are migrated on read', () => {
+    const doc = new Y.Doc();
+    upsert(doc, PersonV1, { key: '1', name: 'Alice' });
+
+    expect(getKey(doc, PersonV2, '1')).toEqual({
+        key: '1',
+        fullName: 'Alice',
+        age: 0,
+    });
+    expect(select(doc, PersonV3, any())).toEqual([
+        { key: '1', fullName: 'Alice', age: 0 },
+    ]);
+
+    // Old clients still see their own data
+    expect(getKey(doc, PersonV1, '1')).toEqual({ key: '1', name: 'Alice' });
+});
+
+test('Updating old row migrates it first', () => {
+    const doc = new Y.Doc();
+    upsert(doc, PersonV1, { key: '1', name: 'Alice' });
+
+    update(doc, PersonV2, { key: '1', fullName: 'Alice Smith' });
+    expect(getKey(doc, PersonV2, '1')).toEqual({
+        key: '1',
+        fullName: 'Alice Smith',
+        age: 0,
+    });
+    expect(schemaVersions(doc, PersonV2)).toEqual([2]);
+
+    // Older clients can still read fields that were removed from schema
+    expect(getKey(doc, PersonV1, '1')).toEqual({ key: '1', name: 'Alice' });
+});
+
+test('Writes of older clients do not downgrade rows', () => {
+    for (const layout of ['root', 'nested'] as const) {
+        const Old = table('downgrade', PersonV1.type, { layout });
+        const New = table('downgrade', PersonV2.type, { ...PersonV2, layout });
+        const doc = new Y.Doc();
+        upsert(doc, Old, { key: '1', name: 'Alice' });
+        update(doc, New, { key: '1', fullName: 'Alice Smith', age: 30 });
+
+        // Migration must not run again on data that has already been upgraded
+        upsert(doc, Old, { key: '1', name: 'Alice' });
+        expect(schemaVersions(doc, New)).toEqual([2]);
+        expect(getKey(doc, New, '1')).toEqual({
+            key: '1',
+            fullName: 'Alice Smith',
+            age: 30,
+        });
+    }
+});
+
+test('Migrating all rows', () => {
+    const doc = new Y.Doc();
+    upsert(doc, PersonV1, { key: '1', name: 'Alice' });
+    upsert(doc, PersonV1, { key: '2', name: 'Bob' });
+    upsert(doc, PersonV2, { key: '3', fullName: 'Charlie', age: 30 });
+    doc.getMap('person').set('4', true); // Not valid even after migration
+
+    // Newer clients can see that older ones are around
+    expect(schemaVersions(doc, PersonV2)).toEqual([1, 2]);
+
+    expect(migrateRows(doc, PersonV2)).toEqual(['4']);
+    expect(schemaVersions(doc, PersonV2)).toEqual([1, 2]);
+    expect(getKey(doc, PersonV2, '2')).toEqual({
+        key: '2',
+        fullName: 'Bob',
+        age: 0,
+    });
+    expect(doc.getMap('person').get('2')).toBe(2);
+
+    // Fields removed from schema are deleted
+    expect(doc.getMap('person.2').has('name')).toBe(false);
+});
+
+test('Versions in nested layout', () => {
+    const doc = new Y.Doc();
+    const OldTable = table('nestedperson', PersonV1.type, {
+        layout: 'nested',
+    });
+    const NewTable = table('nestedperson', PersonV2.type, {
+        ...PersonV2,
+        layout: 'nested',
+    });
+    upsert(doc, OldTable, { key: '1', name: 'Alice' });
+    upsert(doc, NewTable, { key: '2', fullName: 'Bob', age: 42 });
+
+    expect(schemaVersions(doc, NewTable)).toEqual([1, 2]);
+    expect(select(doc, NewTable, any())).toHaveLength(2);
+    expect(migrateRows(doc, NewTable)).toBeEmpty();
+    expect(schemaVersions(doc, NewTable)).toEqual([2]);
+});
+
+const ProfileV1 = table(
+    'profile',
+    z.object({
+        key: z.string(),
+        name: z.string(),
+    }),
+);
+
+const ProfileV2 = table(
+    'profile',
+    z.object({
+        key: z.string(),
+        name: z.string(),
+        theme: z.string().default('light'),
+        address: z
+            .object({ city: z.string(), country: z.string() })
+            .default({ city: 'Helsinki', country: 'Finland' }),
+        settings: z.object({
+            notifications: z.boolean().default(true),
+            bio: z.string().optional(),
+        }),
+    }),
+);
+
+test('New fields fall back to defaults', () => {
+    const doc = new Y.Doc();
+    upsert(doc, ProfileV1, { key: '1', name: 'Alice' });
+
+    // Row is not hidden, even though nested objects have never been written
+    expect(getKey(doc, ProfileV2, '1')).toEqual({
+        key: '1',
+        name: 'Alice',
+        theme: 'light',
+        address: { city: 'Helsinki', country: 'Finland' },
+        settings: { notifications: true },
+    });
+
+    // Nested objects with defaults are still synced as Y.Maps
+    update(doc, ProfileV2, { key: '1', address: { city: 'Espoo' } });
+    expect(getKey(doc, ProfileV2, '1')?.address).toEqual({
+        city: 'Espoo',
+        country: 'Finland',
+    });
+});
+
+test('Backfilling defaults', () => {
+    const doc = new Y.Doc();
+    upsert(doc, ProfileV1, { key: '1', name: 'Alice' });
+    upsert(doc, ProfileV2, {
+        key: '2',
+        name: 'Bob',
+        theme: 'dark',
+        address: { city: 'Tampere', country: 'Finland' },
+        settings: { notifications: false },
+    });
+
+    expect(findDefaultedRows(doc, ProfileV2)).toEqual(
+        new Map([['1', ['theme', 'address', 'settings.notifications']]]),
+    );
+    expect(backfillDefaults(doc, ProfileV2)).toEqual(['1']);
+    expect(findDefaultedRows(doc, ProfileV2).size).toBe(0);
+    expect(doc.getMap('profile.1').get('theme')).toBe('light');
+    expect(doc.getMap('profile.1.address').get('city')).toBe('Helsinki');
+    expect(getKey(doc, ProfileV2, '1')?.settings).toEqual({
+        notifications: true,
+    });
+});
+
+test('Filters see defaults and migrated values', () => {
+    const doc = new Y.Doc();
+    upsert(doc, ProfileV1, { key: '1', name: 'Alice' });
+    upsert(doc, PersonV1, { key: '1', name: 'Alice' });
+
+    expect(select(doc, ProfileV2, eq('theme', 'light'))).toHaveLength(1);
+    expect(select(doc, ProfileV2, eq('address.city', 'Helsinki'))).toHaveLength(
+        1,
+    );
+    expect(
+        select(doc, ProfileV2, eq('settings.notifications', true)),
+    ).toHaveLength(1);
+    expect(select(doc, PersonV2, eq('fullName', 'Alice'))).toHaveLength(1);
+    expect(select(doc, PersonV2, eq('age', 0))).toHaveLength(1);
+});
@@ -0,0 +1,165 @@
+import * as Y from 'yjs';
+import type { Table, TableBase } from './table';
+import {
+    allKeys,
+    clearData,
+    defaultedFields,
+    migrateData,
+    readData,
+    readDataPresent,
+    rowVersion,
+    writeData,
+} from './yjs-types';
+
+/**
+ * Converts rows of a table from 'root' to 'nested' storage layout.
+ *
+ * All peers should be using 'nested' layout for the table before the
+ * conversion. Peers that still use 'root' layout will not see converted rows,
+ * and changes they make to them are lost.
+ *
+ * Rows that do not match the table schema (e.g. because they have not been
+ * fully replicated yet) are left as-is.
+ * @param doc Database to operate on.
+ * @param table Table to convert, with 'nested' layout.
+ * @returns Keys of rows that could not be converted.
+ */
+export function convertToNestedLayout<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+): string[] {
+    const rootTable: Table<T> = { ...table, layout: 'root' };
+    const skipped: string[] = [];
+    doc.transact(() => {
+        // In 'root' layout, table's map contains only presence markers, not rows
+        const keys = Array.from(doc.getMap(table.name).entries())
+            .filter(([_key, value]) => !(value instanceof Y.Map))
+            .map(([key]) => key);
+        for (const key of keys) {
+            const data = readDataPresent(doc, rootTable, key);
+            if (!data) {
+                skipped.push(key);
+                continue;
+            }
+
+            // Replace presence marker with the row; raw Yjs types are copied
+            writeData(doc, table, key, data, true);
+            clearData(doc, rootTable, key);
+        }
+    });
+    return skipped;
+}
+
+/**
+ * Upgrades all rows of a table that were written with an older schema
+ * version. Rows are also upgraded lazily when they are read or updated,
+ * so calling this is not strictly necessary. However, it ensures that peers
+ * with older schema will not see outdated data.
+ * @param doc Database to operate on.
+ * @param table Table to migrate.
+ * @returns Keys of rows that did not match the table schema even after
+ * migrations, and were thus left as-is.
+ */
+export function migrateRows<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+): string[] {
+    const skipped: string[] = [];
+    doc.transact(() => {
+        for (const key of Array.from(allKeys(doc, table))) {
+            const version = rowVersion(doc, table, key) ?? table.version;
+            if (version < table.version && !migrateData(doc, table, key)) {
+                skipped.push(key);
+            }
+        }
+    });
+    return skipped;
+}
+
+/**
+ * Finds out which schema versions rows of a table have been written with.
+ * If this contains versions newer than the table's version, some peers are
+ * using a newer schema; if it contains older versions, the opposite.
+ * @param doc Database to operate on.
+ * @param table Table to check.
+ * @returns Distinct schema versions in ascending order.
+ */
+export function schemaVersions<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+): number[] {
+    const versions = new Set<number>();
+    for (const key of allKeys(doc, table)) {
+        versions.add(rowVersion(doc, table, key) ?? table.version);
+    }
+    return Array.from(versions).sort((a, b) => a - b);
+}
+
+/**
+ * Finds rows that rely on schema defaults (.default()) for some of their
+ * fields, including fields of nested objects. This typically happens to rows
+ * that were written before the fields were added to the schema.
+ * @param doc Database to operate on.
+ * @param table Table to check.
+ * @returns Paths of defaulted fields (e.g. 'address.city'), keyed by row
+ * keys. Rows that do not match the schema are not included.
+ */
+export function findDefaultedRows<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+): Map<string, string[]> {
+    const rows = new Map<string, string[]>();
+    for (const key of allKeys(doc, table)) {
+        const paths = defaultedFields(doc, table, key);
+        if (paths && paths.length > 0) {
+            rows.set(key, paths);
+        }
+    }
+    return rows;
+}
+
+/**
+ * Writes default values to rows that rely on them. Afterwards, changing a
+ * default in the schema no longer affects the rows, and peers with older
+ * schema can see the values.
+ * @param doc Database to operate on.
+ * @param table Table to backfill.
+ * @returns Keys of rows that were backfilled.
+ */
+export function backfillDefaults<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+): string[] {
+    const defaulted = findDefaultedRows(doc, table);
+    doc.transact(() => {
+        for (const [key, paths] of defaulted) {
+            const data = readData(doc, table, key) as Record<string, unknown>;
+            // Write only the defaulted fields, so that concurrent changes to other fields are not overwritten
+            const update: Record<string, unknown> = {};
+            for (const path of paths) {
+                setPath(update, path, getPath(data, path));
+            }
+            writeData(doc, table, key, update as T, false);
+        }
+    });
+    return Array.from(defaulted.keys());
+}
+
+function getPath(data: Record<string, unknown>, path: string): unknown {
+    let value: unknown = data;
+    for (const segment of path.split('.')) {
+        value = (value as Record<string, unknown>)[segment];
+    }
+    return value;
+}
+
+function setPath(data: Record<string, unknown>, path: string, value: unknown) {
+    const segments = path.split('.');
+    const last = segments.pop() as string;
+    let target = data;
+    for (const segment of segments) {
+        target[segment] ??= {};
+        target = target[segment] as Record<string, unknown>;
+    }
+    target[last] = value;
+}
@@ -0,0 +1,218 @@
+import type { DeepPartial } from './yjs-types';
+
+const operation = Symbol('y-query operation');
+
+/**
+ * Operation on an array field, passed to update() in place of the field's
+ * new value.
+ *
+ * For arrays that sync as Y.Array, operations of concurrent updates are
+ * merged. For other arrays, the operation is applied to the current value of
+ * the array, and the result is written with last-writer-wins semantics.
+ */
+export type ArrayOperation<T> =
+    | { [operation]: true; type: 'insert'; index: number | null; items: T[] }
+    | { [operation]: true; type: 'remove'; index: number; count: number }
+    | { [operation]: true; type: 'move'; from: number; to: number }
+    | {
+          [operation]: true;
+          type: 'update';
+          index: number;
+          item: DeepPartial<T>;
+      };
+
+/**
+ * Appends items to end of an array.
+ * @param items Items to append.
+ */
+export function append<T>(...items: T[]): ArrayOperation<T> {
+    return { [operation]: true, type: 'insert', index: null, items };
+}
+
+/**
+ * Inserts items to an array.
+ * @param index Index of the first inserted item.
+ * @param items Items to insert.
+ */
+export function insertAt<T>(index: number, ...items: T[]): ArrayOperation<T> {
+    return { [operation]: true, type: 'insert', index, items };
+}
+
+/**
+ * Removes items from an array.
+ * @param index Index of the first removed item.
+ * @param count Number of items to remove.
+ */
+export function removeAt(index: number, count = 1): ArrayOperation<never> {
+    return { [operation]: true, type: 'remove', index, count };
+}
+
+/**
+ * Moves an item to another position in an array.
+ *
+ * For arrays that sync as Y.Array, the item is moved by removing it and
+ * inserting a copy of it. Concurrent changes to content of the moved item
+ * may be lost.
+ * @param from Current index of the item.
+ * @param to Index of the item after it has been moved.
+ */
+export function move(from: number, to: number): ArrayOperation<never> {
+    return { [operation]: true, type: 'move', from, to };
+}
+
+/**
+ * Updates an item in an array. For objects, this works like update() on
+ * rows; only the given fields are changed.
+ * @param index Index of the item.
+ * @param item New value of the item, or changes to it.
+ */
+export function updateAt<T>(
+    index: number,
+    item: T,
+): { [operation]: true; type: 'update'; index: number; item: T } {
+    return { [operation]: true, type: 'update', index, item };
+}
+
+export function isArrayOperation(
+    value: unknown,
+): value is ArrayOperation<unknown> {
+    return (
+        isOperation(value) &&
+        ['insert', 'remove', 'move', 'update'].includes(value.type)
+    );
+}
+
+/**
+ * Operation on a set field, passed to update() in place of the field's new
+ * value.
+ *
+ * For set fields, additions win over concurrent removals of the same member.
+ * Set operations can also be applied to other arrays, in which case they
+ * work like array operations.
+ */
+export type SetOperation<T> = {
+    [operation]: true;
+    type: 'add' | 'delete';
+    members: T[];
+};
+
+/**
+ * Adds members to a set. Members that are already in it are not duplicated.
+ * @param members Members to add.
+ */
+export function addToSet<T>(...members: T[]): SetOperation<T> {
+    return { [operation]: true, type: 'add', members };
+}
+
+/**
+ * Removes members from a set.
+ * @param members Members to remove.
+ */
+export function removeFromSet<T>(...members: T[]): SetOperation<T> {
+    return { [operation]: true, type: 'delete', members };
+}
+
+export function isSetOperation(value: unknown): value is SetOperation<unknown> {
+    return (
+        isOperation(value) && (value.type === 'add' || value.type === 'delete')
+    );
+}
+
+/**
+ * Marker that deletes a value, passed to update() in place of an optional
+ * field's new value or an entry of a record.
+ */
+export type Unset = { [operation]: true; type: 'unset' };
+
+/**
+ * Deletes an optional field or an entry of a record.
+ *
+ * For records that sync as Y.Map, entries are deleted individually, so
+ * concurrent changes to other entries are not affected.
+ */
+export function unset(): Unset {
+    return { [operation]: true, type: 'unset' };
+}
+
+export function isUnset(value: unknown): value is Unset {
+    return isOperation(value) && value.type === 'unset';
+}
+
+function isOperation(value: unknown): value is { type: string } {
+    return typeof value === 'object' && value !== null && operation in value;
+}
+
+/**
+ * Array that operations can be applied on. Both JS arrays and Y.Arrays
+ * can be adapted to this.
+ */
+export interface MutableArray<T> {
+    length: number;
+    get(index: number): T;
+    insert(index: number, items: T[]): void;
+    delete(index: number, count: number): void;
+    update(index: number, item: DeepPartial<T>): void;
+}
+
+/**
+ * Applies an operation to an array.
+ * @param array Array to modify.
+ * @param op Operation to apply.
+ * @param copy Copies an item that is about to be moved.
+ */
+export function applyArrayOperation<T>(
+    array: MutableArray<T>,
+    op: ArrayOperation<T>,
+    copy: (item: T) => T = (item) => item,
+) {
+    const clamp = (index: number) => Math.max(0, Math.min(index, array.length));
+    switch (op.type) {
+        case 'insert':
+            array.insert(clamp(op.index ?? array.length), op.items);
+            break;
+        case 'remove': {
+            const index = clamp(op.index);
+            array.delete(index, Math.min(op.count, array.length - index));
+            break;
+        }
+        case 'move': {
+            if (op.from < 0 || op.from >= array.length) {
+                break; // Nothing to move
+            }
+            const item = copy(array.get(op.from));
+            array.delete(op.from, 1);
+            array.insert(clamp(op.to), [item]);
+            break;
+        }
+        case 'update':
+            if (op.index >= 0 && op.index < array.length) {
+                array.update(op.index, op.item);
+            }
+            break;
+    }
+}
+
+/**
+ * Applies a set operation to an array. Members are compared by identity.
+ * @param array Array to modify.
+ * @param op Operation to apply.
+ */
+export function applySetOperation<T>(
+    array: MutableArray<T>,
+    op: SetOperation<T>,
+) {
+    for (const member of op.members) {
+        let found = false;
+        for (let i = array.length - 1; i >= 0; i--) {
+            if (array.get(i) === member) {
+                found = true;
+                if (op.type === 'delete') {
+                    array.delete(i, 1);
+                }
+            }
+        }
+        if (op.type === 'add' && !found) {
+            array.insert(array.length, [member]);
+        }
+    }
+}
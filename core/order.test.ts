@@ -0,0 +1,321 @@
+import { expect, test } from 'bun:test';
+import * as Y from 'yjs';
+import z from 'zod';
+import { any, eq, gt } from './filter';
+import { type Row, table } from './table';
+import { remove, update, upsert } from './update';
+import {
+    type Page,
+    type PageOptions,
+    type PositionalEvent,
+    type QueryOptions,
+    select,
+    selectPage,
+    watch,
+    watchPage,
+} from './view';
+
+const TaskTable = table(
+    'tasks',
+    z.object({
+        key: z.string(),
+        title: z.string(),
+        priority: z.number().optional(),
+        done: z.boolean(),
+        owner: z.object({ name: z.string() }),
+    }),
+);
+type Task = Row<typeof TaskTable>;
+
+function task(key: string, priority: number | undefined, owner = 'Alice') {
+    return {
+        key,
+        title: `Task ${key}`,
+        priority,
+        done: false,
+        owner: { name: owner },
+    };
+}
+
+function tasks() {
+    const doc = new Y.Doc();
+    upsert(doc, TaskTable, task('c', 2, 'Bob'));
+    upsert(doc, TaskTable, task('a', 3));
+    upsert(doc, TaskTable, task('d', undefined));
+    upsert(doc, TaskTable, task('b', 2));
+    upsert(doc, TaskTable, task('e', 1, 'Bob'));
+    return doc;
+}
+
+test('Ordered select', () => {
+    const doc = tasks();
+    const keys = (options: QueryOptions<Task>) =>
+        select(doc, TaskTable, any(), options).map((row) => row.key);
+
+    expect(keys({ orderBy: 'priority' })).toEqual(['d', 'e', 'b', 'c', 'a']);
+    expect(keys({ orderBy: { field: 'priority', direction: 'desc' } })).toEqual(
+        ['a', 'b', 'c', 'e', 'd'],
+    );
+    expect(
+        keys({
+            orderBy: [
+                { field: 'owner.name', direction: 'desc' },
+                { field: 'priority', direction: 'asc' },
+            ],
+        }),
+    ).toEqual(['e', 'c', 'd', 'b', 'a']);
+    expect(keys({ orderBy: 'priority', limit: 2 })).toEqual(['d', 'e']);
+    expect(keys({ orderBy: 'priority', offset: 1, limit: 2 })).toEqual([
+        'e',
+        'b',
+    ]);
+    expect(keys({ offset: 3 })).toEqual(['d', 'e']); // Ordered by keys
+    expect(
+        select(doc, TaskTable, eq('owner.name', 'Bob'), {
+            orderBy: 'priority',
+        }).map((row) => row.key),
+    ).toEqual(['e', 'c']);
+});
+
+function applyEvents<T>(rows: T[], events: PositionalEvent<T>[]) {
+    for (const event of events) {
+        if (event.type === 'insert') {
+            rows.splice(event.index, 0, event.row);
+        } else if (event.type === 'remove') {
+            rows.splice(event.index, 1);
+        } else if (event.type === 'move') {
+            rows.splice(event.from, 1);
+            rows.splice(event.to, 0, event.row);
+        } else {
+            rows[event.index] = event.row;
+        }
+    }
+}
+
+test('Ordered watch keeps top-N window', () => {
+    const doc = tasks();
+    const options: QueryOptions<Task> = {
+        orderBy: { field: 'priority', direction: 'desc' },
+        limit: 3,
+    };
+    const rows: Task[] = [];
+    let last: { added: string[]; removed: string[]; changed: string[] } = {
+        added: [],
+        removed: [],
+        changed: [],
+    };
+    let visible: string[] = [];
+    watch(
+        doc,
+        TaskTable,
+        gt('priority', 0),
+        'content',
+        (added, removed, changed, visibleData, events) => {
+            applyEvents(rows, events);
+            last = {
+                added: added.map((row) => row.key),
+                removed: removed.map((row) => row.key),
+                changed: changed.map((row) => row.key),
+            };
+            visible = Array.from(visibleData.keys());
+        },
+        options,
+    );
+    const expectWindow = () => {
+        const expected = select(doc, TaskTable, gt('priority', 0), options);
+        expect(rows).toEqual(expected);
+        expect(visible).toEqual(expected.map((row) => row.key));
+    };
+    expectWindow();
+    expect(last.added).toEqual(['a', 'b', 'c']);
+
+    // New row enters the window, pushing the last one out
+    upsert(doc, TaskTable, task('f', 5));
+    expectWindow();
+    expect(last).toEqual({ added: ['f'], removed: ['c'], changed: [] });
+
+    // Row moves within the window
+    update(doc, TaskTable, { key: 'b', priority: 10 });
+    expectWindow();
+    expect(last).toEqual({ added: [], removed: [], changed: ['b'] });
+
+    // Row leaves the window, letting the next one in
+    remove(doc, TaskTable, 'f');
+    expectWindow();
+    expect(last).toEqual({ added: ['c'], removed: ['f'], changed: [] });
+
+    // Row that stops matching the query
+    update(doc, TaskTable, { key: 'a', priority: -1 });
+    expectWindow();
+    expect(last).toEqual({ added: ['e'], removed: ['a'], changed: [] });
+
+    // Changes in content of a visible row without moving it
+    update(doc, TaskTable, { key: 'c', title: 'Renamed' });
+    expectWindow();
+    expect(last).toEqual({ added: [], removed: [], changed: ['c'] });
+
+    // Changes outside of the window are not reported
+    upsert(doc, TaskTable, task('g', 1));
+    expect(last).toEqual({ added: [], removed: [], changed: ['c'] });
+    expectWindow();
+});
+
+test('Ordered watch with offset', () => {
+    const doc = tasks();
+    const options: QueryOptions<Task> = { orderBy: 'key', offset: 1, limit: 2 };
+    const rows: Task[] = [];
+    const allEvents: PositionalEvent<Task>['type'][] = [];
+    watch(
+        doc,
+        TaskTable,
+        any(),
+        'content',
+        (_added, _removed, _changed, _visibleData, events) => {
+            applyEvents(rows, events);
+            allEvents.push(...events.map((event) => event.type));
+        },
+        options,
+    );
+    const expectWindow = () =>
+        expect(rows).toEqual(select(doc, TaskTable, any(), options));
+    expectWindow();
+
+    upsert(doc, TaskTable, task('0', 1)); // Before window, shifts everything
+    expectWindow();
+    remove(doc, TaskTable, 'b');
+    expectWindow();
+    remove(doc, TaskTable, '0');
+    expectWindow();
+    for (let i = 0; i < 10; i++) {
+        upsert(doc, TaskTable, task(`x${i}`, i));
+        update(doc, TaskTable, { key: 'c', priority: i });
+        expectWindow();
+    }
+    expect(allEvents).toContain('insert');
+    expect(allEvents).toContain('remove');
+    expect(allEvents).toContain('update');
+});
+
+test('Ordered watch moves rows', () => {
+    const doc = tasks();
+    const events: PositionalEvent<Task>[][] = [];
+    watch(
+        doc,
+        TaskTable,
+        any(),
+        'content',
+        (_added, _removed, _changed, _visibleData, e) => {
+            events.push(e);
+        },
+        { orderBy: 'priority' },
+    );
+    update(doc, TaskTable, { key: 'a', priority: 0 });
+    expect(events[1]).toEqual([
+        {
+            type: 'move',
+            from: 4,
+            to: 1,
+            key: 'a',
+            row: task('a', 0),
+        },
+    ]);
+});
+
+test('Paged select', () => {
+    const doc = tasks();
+    const pages = (options: Omit<PageOptions<Task>, 'after'>) => {
+        const keys: string[][] = [];
+        let after: string | null = null;
+        do {
+            const page: Page<Task> = selectPage(doc, TaskTable, any(), {
+                ...options,
+                after,
+            });
+            keys.push(page.rows.map((row) => row.key));
+            after = page.cursor;
+        } while (after);
+        return keys;
+    };
+
+    expect(pages({ orderBy: 'priority', limit: 2 })).toEqual([
+        ['d', 'e'],
+        ['b', 'c'],
+        ['a'],
+    ]);
+    expect(
+        pages({ orderBy: { field: 'priority', direction: 'desc' }, limit: 3 }),
+    ).toEqual([
+        ['a', 'b', 'c'],
+        ['e', 'd'],
+    ]);
+    expect(pages({ limit: 5 })).toEqual([['a', 'b', 'c', 'd', 'e']]);
+
+    // Cursors of other orderings start from the beginning
+    const { cursor } = selectPage(doc, TaskTable, any(), {
+        orderBy: 'priority',
+        limit: 1,
+    });
+    expect(
+        selectPage(doc, TaskTable, any(), {
+            orderBy: [{ field: 'owner.name', direction: 'desc' }, 'priority'],
+            after: cursor,
+            limit: 1,
+        }).rows,
+    ).toEqual([task('e', 1, 'Bob')]);
+    expect(
+        selectPage(doc, TaskTable, any(), { after: 'garbage', limit: 1 }).rows,
+    ).toEqual([task('a', 3)]);
+
+    // Empty pages could not be continued from
+    expect(() => selectPage(doc, TaskTable, any(), { limit: 0 })).toThrow(
+        RangeError,
+    );
+});
+
+test('Page cursors are stable under concurrent changes', () => {
+    const doc = tasks();
+    const remote = new Y.Doc();
+    Y.applyUpdate(remote, Y.encodeStateAsUpdate(doc));
+    const options: PageOptions<Task> = { orderBy: 'priority', limit: 2 };
+    const first = selectPage(doc, TaskTable, gt('priority', 0), options);
+    expect(first.rows.map((row) => row.key)).toEqual(['e', 'b']);
+
+    // Remote peer removes the last row of page and adds rows before and after it
+    remove(remote, TaskTable, 'b');
+    upsert(remote, TaskTable, task('0', 1));
+    upsert(remote, TaskTable, task('f', 2));
+    Y.applyUpdate(doc, Y.encodeStateAsUpdate(remote));
+
+    const second = selectPage(doc, TaskTable, gt('priority', 0), {
+        ...options,
+        after: first.cursor,
+    });
+    expect(second.rows.map((row) => row.key)).toEqual(['c', 'f']);
+    const third = selectPage(doc, TaskTable, gt('priority', 0), {
+        ...options,
+        after: second.cursor,
+    });
+    expect(third).toEqual({ rows: [task('a', 3)], cursor: null });
+});
+
+test('Watched pages', () => {
+    const doc = tasks();
+    const pages: string[][] = [];
+    const unwatch = watchPage(
+        doc,
+        TaskTable,
+        any(),
+        { orderBy: 'priority', limit: 2 },
+        (page) => {
+            pages.push(page.rows.map((row) => row.key));
+        },
+    );
+    update(doc, TaskTable, { key: 'a', priority: 0 });
+    doc.getMap('unrelated').set('x', 1);
+    unwatch();
+    remove(doc, TaskTable, 'a');
+    expect(pages).toEqual([
+        ['d', 'e'],
+        ['d', 'a'],
+    ]);
+});
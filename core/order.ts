@@ -0,0 +1,161 @@
+import type { OrderBy, QueryOptions } from './view';
+
+/**
+ * Orders values first by their types, then by their values. Numbers, strings
+ * and dates are ordered like gt() and lt() order them.
+ */
+export function compareValues(a: unknown, b: unknown): number {
+    const rankA = typeRank(a);
+    const rankB = typeRank(b);
+    if (rankA !== rankB) {
+        return rankA - rankB;
+    } else if (typeof a === 'number') {
+        return a - (b as number);
+    } else if (a instanceof Date) {
+        return a.getTime() - (b as Date).getTime();
+    } else if (rankA === 6) {
+        // Objects and arrays have no natural order, but it must be stable
+        a = JSON.stringify(a);
+        b = JSON.stringify(b);
+    }
+    return a === b ? 0 : (a as string) < (b as string) ? -1 : 1;
+}
+
+/**
+ * Gets position of value's type in order used by compareValues(). Missing
+ * values come first, then nulls, booleans, numbers, strings, dates and
+ * finally everything else.
+ */
+export function typeRank(value: unknown): number {
+    if (value === undefined) {
+        return 0;
+    } else if (value === null) {
+        return 1;
+    }
+    switch (typeof value) {
+        case 'boolean':
+            return 2;
+        case 'number':
+            return 3;
+        case 'string':
+            return 4;
+        default:
+            return value instanceof Date ? 5 : 6;
+    }
+}
+
+/**
+ * Checks if query results should be sorted or limited.
+ */
+export function isWindowed<T>(options: QueryOptions<T>): boolean {
+    return (
+        options.orderBy !== undefined ||
+        options.limit !== undefined ||
+        options.offset !== undefined
+    );
+}
+
+/**
+ * Field that rows are ordered by. Sign is negative for descending order.
+ */
+export interface SortField {
+    path: string;
+    sign: number;
+}
+
+/**
+ * Parses fields that rows should be ordered by.
+ */
+export function sortFields<T>(
+    orderBy: QueryOptions<T>['orderBy'],
+): SortField[] {
+    const specs: readonly OrderBy<T>[] = Array.isArray(orderBy)
+        ? orderBy
+        : orderBy
+          ? [orderBy as OrderBy<T>]
+          : [];
+    return specs.map((spec) =>
+        typeof spec === 'string'
+            ? { path: spec, sign: 1 }
+            : { path: spec.field, sign: spec.direction === 'desc' ? -1 : 1 },
+    );
+}
+
+/**
+ * Compares rows by values of the fields they are ordered by. Rows that are
+ * equal by all of those are ordered by their keys.
+ */
+export function compareSorted(
+    fields: SortField[],
+    [keyA, valuesA]: [string, unknown[]],
+    [keyB, valuesB]: [string, unknown[]],
+): number {
+    for (let i = 0; i < fields.length; i++) {
+        const order = compareValues(valuesA[i], valuesB[i]);
+        if (order !== 0) {
+            return (fields[i] as SortField).sign * order;
+        }
+    }
+    return keyA === keyB ? 0 : keyA < keyB ? -1 : 1;
+}
+
+/**
+ * Creates a function that compares rows (as key-value pairs) by the fields
+ * they should be ordered by.
+ */
+export function rowComparator<T>(
+    orderBy: QueryOptions<T>['orderBy'],
+): (a: [string, T], b: [string, T]) => number {
+    const fields = sortFields(orderBy);
+    const paths = fields.map(({ path }) => path.split('.'));
+    const values = (row: T) => paths.map((path) => valueAt(row, path));
+    return ([keyA, a], [keyB, b]) =>
+        compareSorted(fields, [keyA, values(a)], [keyB, values(b)]);
+}
+
+/**
+ * Gets value of a nested field of a row.
+ * @param path Path to the field, split by dots.
+ */
+export function valueAt(row: unknown, path: string[]): unknown {
+    let value = row;
+    for (const segment of path) {
+        value =
+            typeof value === 'object' && value !== null
+                ? (value as Record<string, unknown>)[segment]
+                : undefined;
+    }
+    return value;
+}
+
+/**
+ * Finds index where an entry should be inserted to keep a list sorted.
+ */
+export function sortedIndex<E>(
+    list: E[],
+    entry: E,
+    compare: (a: E, b: E) => number,
+): number {
+    let start = 0;
+    let end = list.length;
+    while (start < end) {
+        const middle = (start + end) >>> 1;
+        if (compare(list[middle] as E, entry) < 0) {
+            start = middle + 1;
+        } else {
+            end = middle;
+        }
+    }
+    return start;
+}
+
+/**
+ * Applies limit and offset of a query to sorted rows.
+ */
+export function windowOf<E>(sorted: E[], options: QueryOptions<unknown>): E[] {
+    const offset = options.offset ?? 0;
+    return sorted.slice(
+        offset,
+        options.limit === undefined ? undefined : offset + options.limit,
+    );
+}
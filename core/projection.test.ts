@@ -0,0 +1,110 @@
+import { expect, test } from 'bun:test';
+import * as Y from 'yjs';
+import z from 'zod';
+import { any } from './filter';
+import { table } from './table';
+import { update, upsert } from './update';
+import { select, watch } from './view';
+
+const fields = {
+    key: z.string(),
+    title: z.string(),
+    createdAt: z.number(),
+    meta: z.object({ words: z.number() }),
+    content: z.instanceof(Y.XmlFragment).meta({ syncAs: Y.XmlFragment }),
+};
+
+const NoteTable = table('notes', z.object(fields));
+
+function notes() {
+    const doc = new Y.Doc();
+    for (const [key, createdAt] of [
+        ['a', 2],
+        ['b', 1],
+    ] as const) {
+        upsert(doc, NoteTable, {
+            key,
+            title: `Note ${key}`,
+            createdAt,
+            meta: { words: 0 },
+            content: new Y.XmlFragment(),
+        });
+    }
+    return doc;
+}
+
+test('Selecting only some fields', () => {
+    const doc = notes();
+    const rows = select(doc, NoteTable, any(), { fields: ['key', 'title'] });
+    expect(rows).toEqual([
+        { key: 'a', title: 'Note a' },
+        { key: 'b', title: 'Note b' },
+    ]);
+
+    // Fields that rows are ordered by are read too
+    const ordered: object[] = select(doc, NoteTable, any(), {
+        fields: ['title'],
+        orderBy: 'createdAt',
+    });
+    expect(ordered).toEqual([
+        { title: 'Note b', createdAt: 1 },
+        { title: 'Note a', createdAt: 2 },
+    ]);
+
+    // @ts-expect-error Not included in the rows
+    rows[0]?.createdAt;
+    // @ts-expect-error No such field
+    select(doc, NoteTable, any(), { fields: ['nothing'] });
+});
+
+test('Only selected fields are validated', () => {
+    const doc = notes();
+    // Invalid data in a field that is not selected
+    doc.getMap('notes.a').set('createdAt', 'invalid');
+    expect(select(doc, NoteTable, any()).map((row) => row.key)).toEqual(['b']);
+    expect(select(doc, NoteTable, any(), { fields: ['title'] })).toEqual([
+        { title: 'Note a' },
+        { title: 'Note b' },
+    ]);
+});
+
+test('Selecting only some fields of migrated rows', () => {
+    const doc = notes();
+    const NoteTableV2 = table(
+        'notes',
+        z.object({ ...fields, pinned: z.boolean() }),
+        {
+            version: 2,
+            migrations: {
+                2: (row) => ({ ...row, pinned: (row.createdAt as number) > 1 }),
+            },
+        },
+    );
+    expect(
+        select(doc, NoteTableV2, any(), { fields: ['key', 'pinned'] }),
+    ).toEqual([
+        { key: 'a', pinned: true },
+        { key: 'b', pinned: false },
+    ]);
+});
+
+test('Watchers ignore changes in fields that are not selected', () => {
+    const doc = notes();
+    const changed: string[] = [];
+    watch(
+        doc,
+        NoteTable,
+        any(),
+        'content',
+        (_added, _removed, rows) => {
+            changed.push(...rows.map((row) => row.title));
+        },
+        { fields: ['title'] },
+    );
+
+    update(doc, NoteTable, { key: 'a', createdAt: 3 });
+    update(doc, NoteTable, { key: 'a', meta: { words: 100 } });
+    expect(changed).toEqual([]);
+    update(doc, NoteTable, { key: 'a', title: 'Renamed' });
+    expect(changed).toEqual(['Renamed']);
+});
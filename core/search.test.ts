@@ -0,0 +1,153 @@
+import { expect, test } from 'bun:test';
+import * as Y from 'yjs';
+import z from 'zod';
+import { eq } from './filter';
+import { type SearchOptions, search, watchSearch } from './search';
+import { type Row, table } from './table';
+import { remove, update, upsert } from './update';
+import { getKey } from './view';
+
+const layouts = ['root', 'nested'] as const;
+
+function notesTable(layout: 'root' | 'nested') {
+    return table(
+        'notes',
+        z.object({
+            key: z.string(),
+            title: z.string(),
+            folder: z.string(),
+            tags: z.array(z.string()),
+            content: z
+                .instanceof(Y.XmlFragment)
+                .meta({ syncAs: Y.XmlFragment }),
+        }),
+        { layout, search: ['title', 'tags', 'content'] },
+    );
+}
+
+type Note = Row<ReturnType<typeof notesTable>>;
+
+function paragraph(text: string) {
+    const element = new Y.XmlElement('p');
+    element.insert(0, [new Y.XmlText(text)]);
+    return element;
+}
+
+function notes(NoteTable: ReturnType<typeof notesTable>) {
+    const doc = new Y.Doc();
+    const note = (key: string, title: string, tags: string[], text: string) => {
+        upsert(doc, NoteTable, {
+            key,
+            title,
+            folder: 'work',
+            tags,
+            content: new Y.XmlFragment(),
+        });
+        getKey(doc, NoteTable, key)?.content.insert(0, [paragraph(text)]);
+    };
+    note('a', 'Shopping list', ['home'], 'Milk, eggs and bread');
+    note('b', 'Meeting notes', ['work'], 'Discussed the shopping centre');
+    note('c', 'Notes on notes', ['meta'], 'Notes about writing notes');
+    return doc;
+}
+
+test('Search', () => {
+    for (const layout of layouts) {
+        const NoteTable = notesTable(layout);
+        const doc = notes(NoteTable);
+        const keys = (text: string, options: SearchOptions<Note> = {}) =>
+            search(doc, NoteTable, text, options).map((note) => note.key);
+
+        expect(keys('shopping')).toEqual(['a', 'b']);
+        expect(keys('SHOPPING list')).toEqual(['a']);
+        expect(keys('eggs')).toEqual(['a']); // Text content of XML
+        expect(keys('home')).toEqual(['a']); // Arrays of strings
+        expect(keys('note')).toEqual(['c', 'b']); // Prefixes, ranked by counts
+        expect(keys('notes', { limit: 1 })).toEqual(['c']);
+        expect(keys('notes', { query: eq('tags', ['work']) })).toEqual(['b']);
+        expect(keys('work')).toEqual(['b']); // Folder is not searchable
+        expect(keys('nothing')).toEqual([]);
+        expect(keys(' ,.')).toEqual([]);
+    }
+});
+
+test('Search index is updated incrementally', () => {
+    for (const layout of layouts) {
+        const NoteTable = notesTable(layout);
+        const doc = notes(NoteTable);
+        const results: string[][] = [];
+        const unwatch = watchSearch(doc, NoteTable, 'bread', (rows) => {
+            results.push(rows.map((note) => note.key));
+        });
+        expect(results).toEqual([['a']]);
+
+        update(doc, NoteTable, { key: 'b', title: 'Bread recipes' });
+        expect(results[results.length - 1]).toEqual(['a', 'b']);
+
+        // Changes inside raw Yjs types
+        getKey(doc, NoteTable, 'a')?.content.delete(0, 1);
+        expect(results[results.length - 1]).toEqual(['b']);
+        getKey(doc, NoteTable, 'c')?.content.insert(0, [paragraph('Bread')]);
+        expect(results[results.length - 1]).toEqual(['b', 'c']);
+
+        remove(doc, NoteTable, 'b');
+        expect(results[results.length - 1]).toEqual(['c']);
+
+        // Remote changes
+        const remote = new Y.Doc();
+        Y.applyUpdate(remote, Y.encodeStateAsUpdate(doc));
+        update(remote, NoteTable, { key: 'a', tags: ['bread'] });
+        Y.applyUpdate(doc, Y.encodeStateAsUpdate(remote));
+        expect(results[results.length - 1]).toEqual(['a', 'c']);
+
+        unwatch();
+        const count = results.length;
+        remove(doc, NoteTable, 'a');
+        expect(results).toHaveLength(count);
+        expect(search(doc, NoteTable, 'bread').map((note) => note.key)).toEqual(
+            ['c'],
+        );
+    }
+});
+
+test('Watched searches only read rows that change', () => {
+    for (const layout of layouts) {
+        const NoteTable = notesTable(layout);
+        const doc = notes(NoteTable);
+        let results: Note[] = [];
+        watchSearch(doc, NoteTable, 'notes', (rows) => {
+            results = rows;
+        });
+        const [c, b] = results;
+        expect(results.map((note) => note.key)).toEqual(['c', 'b']);
+
+        update(doc, NoteTable, {
+            key: 'b',
+            title: 'Notes, notes, notes, notes and notes',
+        });
+        expect(results.map((note) => note.key)).toEqual(['b', 'c']);
+        expect(results[1]).toBe(c as Note);
+        expect(results[0]).not.toBe(b as Note);
+
+        // Other rows are still ranked like search() ranks them
+        update(doc, NoteTable, { key: 'a', title: 'Notes' });
+        expect(results).toEqual(search(doc, NoteTable, 'notes'));
+    }
+});
+
+test('Search index sees local changes to rows from other peers', () => {
+    for (const layout of layouts) {
+        const NoteTable = notesTable(layout);
+        const doc = new Y.Doc();
+        const keys = (text: string) =>
+            search(doc, NoteTable, text).map((note) => note.key);
+        expect(keys('shopping')).toEqual([]);
+        Y.applyUpdate(doc, Y.encodeStateAsUpdate(notes(NoteTable)));
+        expect(keys('shopping')).toEqual(['a', 'b']);
+
+        update(doc, NoteTable, { key: 'c', title: 'Hello world' });
+        getKey(doc, NoteTable, 'a')?.content.delete(0, 1);
+        expect(keys('world')).toEqual(['c']);
+        expect(keys('eggs')).toEqual([]);
+    }
+});
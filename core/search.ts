@@ -0,0 +1,349 @@
+import * as Y from 'yjs';
+import { any, evaluateFilter, type Filter } from './filter';
+import type { Table, TableBase } from './table';
+import type { ChangeContext } from './view';
+import {
+    type ChangeTracker,
+    changeContext,
+    changedKeys,
+    filterRow,
+    isPresent,
+    readDataPresent,
+    trackChanges,
+} from './yjs-types';
+
+/**
+ * In-memory full-text index of a table.
+ */
+interface SearchIndex {
+    table: Table<TableBase>;
+
+    /**
+     * Rows that contain each word, with the number of times they contain it.
+     */
+    words: Map<string, Map<string, number>>;
+
+    /**
+     * Words of each row, with the number of times the row contains them.
+     */
+    rows: Map<string, Map<string, number>>;
+}
+
+interface DocSearchIndexes {
+    tables: Map<Table<TableBase>, SearchIndex>;
+    changes: ChangeTracker;
+}
+
+const docSearchIndexes = new WeakMap<Y.Doc, DocSearchIndexes>();
+
+/**
+ * Gets up-to-date full-text index of a table, building it if needed.
+ */
+function searchIndex(doc: Y.Doc, table: Table<TableBase>): SearchIndex {
+    let cache = docSearchIndexes.get(doc);
+    if (!cache) {
+        cache = { tables: new Map(), changes: trackChanges(doc) };
+        docSearchIndexes.set(doc, cache);
+    }
+
+    const index = cache.tables.get(table) ?? {
+        table,
+        words: new Map(),
+        rows: new Map(),
+    };
+    cache.tables.set(table, index);
+    for (const key of cache.changes.take(table)) {
+        updateRow(doc, index, key);
+    }
+    return index;
+}
+
+function updateRow(doc: Y.Doc, index: SearchIndex, key: string) {
+    for (const word of index.rows.get(key)?.keys() ?? []) {
+        const rows = index.words.get(word) as Map<string, number>;
+        rows.delete(key);
+        if (rows.size === 0) {
+            index.words.delete(word);
+        }
+    }
+    index.rows.delete(key);
+    if (!isPresent(doc, index.table, key)) {
+        return;
+    }
+
+    const row = filterRow(doc, index.table, key);
+    const counts = new Map<string, number>();
+    for (const field of index.table.search) {
+        for (const word of tokenize(textOf(row.get(field as never)))) {
+            counts.set(word, (counts.get(word) ?? 0) + 1);
+        }
+    }
+    index.rows.set(key, counts);
+    for (const [word, count] of counts) {
+        const rows = index.words.get(word) ?? new Map();
+        rows.set(key, count);
+        index.words.set(word, rows);
+    }
+}
+
+/**
+ * Gets text content of a field value. Raw Yjs types are searched for text
+ * recursively, e.g. to find all text nodes of a Y.XmlFragment.
+ */
+function textOf(value: unknown): string {
+    if (typeof value === 'string') {
+        return value;
+    } else if (Array.isArray(value)) {
+        return value.map(textOf).join(' ');
+    } else if (value instanceof Y.Text) {
+        // Also Y.XmlText, which would include formatting in toString()
+        return value
+            .toDelta()
+            .map((op: { insert: unknown }) =>
+                typeof op.insert === 'string' ? op.insert : '',
+            )
+            .join('');
+    } else if (value instanceof Y.XmlFragment || value instanceof Y.Array) {
+        return value.toArray().map(textOf).join(' ');
+    } else if (value instanceof Y.Map) {
+        return Array.from(value.values(), textOf).join(' ');
+    }
+    return '';
+}
+
+/**
+ * Splits text to lowercase words.
+ */
+function tokenize(text: string): string[] {
+    return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+export interface SearchOptions<T> {
+    /**
+     * Query that found rows must also match.
+     */
+    query?: Filter<T>;
+
+    /**
+     * Maximum number of rows to return.
+     */
+    limit?: number;
+}
+
+/**
+ * Searches a table for rows that contain all words of the given text in
+ * their searchable fields (see TableOptions.search). Words are matched
+ * case-insensitively, and words that start with a searched word also match,
+ * so that e.g. 'note' finds 'notes'.
+ * @param doc Database to operate on.
+ * @param table Table to search.
+ * @param text Text to search for.
+ * @param options Additional query and maximum number of rows.
+ * @returns Rows that were found, with the most relevant ones first. Rows are
+ * more relevant when they contain the words exactly and more times, and when
+ * fewer other rows contain them.
+ */
+export function search<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    text: string,
+    options: SearchOptions<T> = {},
+): T[] {
+    const terms = [...new Set(tokenize(text))];
+    if (terms.length === 0 || table.search.length === 0) {
+        return [];
+    }
+    const index = searchIndex(doc, table as unknown as Table<TableBase>);
+    const scores = new Map<string, number>();
+    for (const key of matchingKeys(index, terms)) {
+        const matches = matchesOf(index, terms, key) as TermMatches;
+        scores.set(key, scoreOf(index, terms, matches));
+    }
+    return rankedRows(scores, options.limit, (key) =>
+        readMatching(doc, table, options.query, key),
+    );
+}
+
+/**
+ * Finds keys of rows that contain all terms, or words that start with them.
+ */
+function matchingKeys(index: SearchIndex, terms: string[]): Set<string> {
+    let keys: Set<string> | null = null;
+    for (const term of terms) {
+        const termKeys = new Set<string>();
+        for (const [word, rows] of index.words) {
+            if (word.startsWith(term)) {
+                for (const key of rows.keys()) {
+                    if (!keys || keys.has(key)) {
+                        termKeys.add(key);
+                    }
+                }
+            }
+        }
+        keys = termKeys;
+    }
+    return keys ?? new Set();
+}
+
+/**
+ * Words of a row that match each search term, with the number of times the
+ * row contains them.
+ */
+type TermMatches = [string, number][][];
+
+/**
+ * Finds words of a row that match search terms.
+ * @returns The words, or null if the row does not contain all terms.
+ */
+function matchesOf(
+    index: SearchIndex,
+    terms: string[],
+    key: string,
+): TermMatches | null {
+    const counts = Array.from(index.rows.get(key) ?? []);
+    const matches: TermMatches = [];
+    for (const term of terms) {
+        const words = counts.filter(([word]) => word.startsWith(term));
+        if (words.length === 0) {
+            return null;
+        }
+        matches.push(words);
+    }
+    return matches;
+}
+
+/**
+ * Computes relevance of a row from words that matched search terms.
+ * Matches are weighted by how common their words currently are, so this can
+ * be used for rows that did not change since their words were found.
+ */
+function scoreOf(
+    index: SearchIndex,
+    terms: string[],
+    matches: TermMatches,
+): number {
+    let score = 0;
+    matches.forEach((words, i) => {
+        for (const [word, count] of words) {
+            const rows = index.words.get(word)?.size ?? 1;
+            const weight =
+                (word === terms[i] ? 1 : 0.5) *
+                Math.log(1 + index.rows.size / rows);
+            score += count * weight;
+        }
+    });
+    return score;
+}
+
+/**
+ * Reads a row if it matches a query. Like select(), rows that have not been
+ * fully replicated yet are skipped.
+ */
+function readMatching<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T> | undefined,
+    key: string,
+): T | null {
+    if (!evaluateFilter(query ?? any(), filterRow(doc, table, key))) {
+        return null;
+    }
+    return readDataPresent(doc, table, key);
+}
+
+/**
+ * Orders rows by their scores, most relevant first.
+ * @param read Reads a row, or returns null if it should be skipped.
+ */
+function rankedRows<T>(
+    scores: Map<string, number>,
+    limit: number | undefined,
+    read: (key: string) => T | null,
+): T[] {
+    const ranked = Array.from(scores).sort(
+        ([keyA, a], [keyB, b]) =>
+            b - a || (keyA === keyB ? 0 : keyA < keyB ? -1 : 1),
+    );
+    const rows: T[] = [];
+    for (const [key] of ranked) {
+        if (rows.length === limit) {
+            break;
+        }
+        const data = read(key);
+        if (data) {
+            rows.push(data);
+        }
+    }
+    return rows;
+}
+
+/**
+ * Watches results of a search. When rows of the table change, only they are
+ * matched against the searched words again, using the incrementally updated
+ * full-text index. Rows that match are still ranked like search() ranks them.
+ * @param doc Database to operate on.
+ * @param table Table to search.
+ * @param text Text to search for.
+ * @param watcher Watcher function. This is called with the found rows
+ * immediately, and then every time rows of the table change. As second
+ * argument, the transaction that changed them is described (see watch()).
+ * @param options Additional query and maximum number of rows.
+ * @returns Function that, when called, stops this watch operation.
+ */
+export function watchSearch<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    text: string,
+    watcher: (rows: T[], context: ChangeContext | null) => void,
+    options: SearchOptions<T> = {},
+): () => void {
+    const terms = [...new Set(tokenize(text))];
+    if (terms.length === 0 || table.search.length === 0) {
+        watcher([], null);
+        return () => {}; // Nothing can ever be found
+    }
+
+    // Matches of rows that contain the terms, and rows read for results
+    const matches = new Map<string, TermMatches>();
+    const rows = new Map<string, T | null>();
+    const read = (key: string) => {
+        if (!rows.has(key)) {
+            rows.set(key, readMatching(doc, table, options.query, key));
+        }
+        return rows.get(key) as T | null;
+    };
+    const results = (index: SearchIndex) => {
+        // Weights of words may have changed, so scores are not kept
+        const scores = new Map<string, number>();
+        for (const [key, match] of matches) {
+            scores.set(key, scoreOf(index, terms, match));
+        }
+        return rankedRows(scores, options.limit, read);
+    };
+
+    const handler = (transaction: Y.Transaction) => {
+        const changed = changedKeys(doc, table, transaction);
+        if (changed.size === 0) {
+            return;
+        }
+        const index = searchIndex(doc, table as unknown as Table<TableBase>);
+        for (const key of changed) {
+            const match = matchesOf(index, terms, key);
+            if (match) {
+                matches.set(key, match);
+            } else {
+                matches.delete(key);
+            }
+            rows.delete(key);
+        }
+        watcher(results(index), changeContext(doc, transaction));
+    };
+    doc.on('afterTransaction', handler);
+
+    const index = searchIndex(doc, table as unknown as Table<TableBase>);
+    for (const key of matchingKeys(index, terms)) {
+        matches.set(key, matchesOf(index, terms, key) as TermMatches);
+    }
+    watcher(results(index), null);
+    return () => doc.off('afterTransaction', handler);
+}
@@ -2,7 +2,8 @@ import { expect, test } from 'bun:test';
 import z from 'zod';
 import * as Y from 'yjs';
 import { table, type Row } from './table';
-import { any, eq, getKey, or, select, watch } from './view';
+import { any, eq, or } from './filter';
+import { getKey, select, watch } from './view';
 import { remove, update, upsert } from './update';
 
 const SimpleTable = table(
@@ -554,6 +555,59 @@ test('Nested discriminatedUnion - switching variants', () => {
     expect((result?.variant as any).value).toBe(99);
 });
 
+test('Nested discriminatedUnion - switching variants clears old fields', () => {
+    const doc = new Y.Doc();
+    upsert(doc, UnionTable, {
+        key: '123',
+        variant: { type: 'text', content: 'hello' },
+    });
+    update(doc, UnionTable, {
+        key: '123',
+        variant: { type: 'number', value: 99 },
+    });
+
+    const variantMap = doc.getMap('union.123.variant');
+    expect(variantMap.has('content')).toBe(false);
+
+    // Switching back does not resurrect old content
+    update(doc, UnionTable, {
+        key: '123',
+        variant: { type: 'text' },
+    });
+    expect(getKey(doc, UnionTable, '123')).toBeNull();
+});
+
+test('Nested discriminatedUnion - concurrent switch and update', () => {
+    const doc1 = new Y.Doc();
+    const doc2 = new Y.Doc();
+    upsert(doc1, UnionTable, {
+        key: '123',
+        variant: { type: 'text', content: 'hello' },
+    });
+    Y.applyUpdate(doc2, Y.encodeStateAsUpdate(doc1));
+
+    // Updates within a variant do not override concurrent switches
+    update(doc1, UnionTable, {
+        key: '123',
+        variant: { type: 'number', value: 1 },
+    });
+    update(doc2, UnionTable, {
+        key: '123',
+        variant: { type: 'text', content: 'edited' },
+    });
+    Y.applyUpdate(doc1, Y.encodeStateAsUpdate(doc2));
+    Y.applyUpdate(doc2, Y.encodeStateAsUpdate(doc1));
+
+    expect(getKey(doc1, UnionTable, '123')?.variant).toEqual({
+        type: 'number',
+        value: 1,
+    });
+    expect(getKey(doc2, UnionTable, '123')?.variant).toEqual({
+        type: 'number',
+        value: 1,
+    });
+});
+
 test('Nested discriminatedUnion - watching detects changes', () => {
     const doc = new Y.Doc();
 
@@ -578,3 +632,60 @@ test('Nested discriminatedUnion - watching detects changes', () => {
     expect(changedRows).toHaveLength(1);
     expect((changedRows[0]?.variant as any).content).toBe('changed');
 });
+
+test('Hard deletion clears row data', () => {
+    const doc = new Y.Doc();
+    upsert(doc, ComplexTable, {
+        key: '123',
+        rawMap: new Y.Map(),
+        convertedMap: {
+            test: 'hello',
+            another: 'foo',
+        },
+        notMapAtAll: {
+            test: 'world',
+        },
+    });
+    getKey(doc, ComplexTable, '123')?.rawMap.set('foo', 'bar');
+
+    remove(doc, ComplexTable, '123', { hard: true });
+    expect(getKey(doc, ComplexTable, '123')).toBeNull();
+    expect(doc.getMap('complex.123').size).toBe(0);
+    expect(doc.getMap('complex.123.convertedMap').size).toBe(0);
+    expect(doc.getMap('complex.123.notMapAtAll').size).toBe(0);
+    expect(doc.getMap('complex.123.rawMap').size).toBe(0);
+});
+
+test('Hard deletion with concurrent update', () => {
+    const doc1 = new Y.Doc();
+    const doc2 = new Y.Doc();
+    upsert(doc1, SimpleTable, {
+        key: '123',
+        foo: true,
+        bar: 'one',
+    });
+    Y.applyUpdate(doc2, Y.encodeStateAsUpdate(doc1));
+
+    // Concurrently delete and update the row
+    remove(doc1, SimpleTable, '123', { hard: true });
+    update(doc2, SimpleTable, { key: '123', bar: 'updated' });
+    Y.applyUpdate(doc1, Y.encodeStateAsUpdate(doc2));
+    Y.applyUpdate(doc2, Y.encodeStateAsUpdate(doc1));
+
+    // Deletion wins, even though the concurrent update survived
+    expect(getKey(doc1, SimpleTable, '123')).toBeNull();
+    expect(getKey(doc2, SimpleTable, '123')).toBeNull();
+    expect(doc1.getMap('simple.123').toJSON()).toEqual({ bar: 'updated' });
+
+    // Upserting the key again overwrites leftovers
+    upsert(doc1, SimpleTable, {
+        key: '123',
+        foo: false,
+        bar: 'two',
+    });
+    expect(getKey(doc1, SimpleTable, '123')).toEqual({
+        key: '123',
+        foo: false,
+        bar: 'two',
+    });
+});
@@ -1,30 +1,181 @@
-import * as Y from 'yjs';
 import type * as z from 'zod';
 
-export interface TableBase {
-    key: string;
+/**
+ * Base type of table rows.
+ */
+export type TableBase = object;
+
+/**
+ * Names of the fields that form primary key of a table.
+ */
+export type PrimaryKey<T> = readonly (keyof T & string)[];
+
+/**
+ * Primary key of a row. For single-field primary keys, this is value of the
+ * field. For composite primary keys, this is a tuple of field values in the
+ * order they were given to table().
+ */
+export type KeyValue<T, K extends PrimaryKey<T>> = K extends readonly [
+    infer F extends keyof T,
+]
+    ? T[F]
+    : { -readonly [I in keyof K]: T[K[I] & keyof T] };
+
+/**
+ * How rows of a table are stored in Y.Doc.
+ *
+ * 'root' stores each row, and each nested object of each row, as a separate
+ * root-level Y.Map. Root-level types can never be deleted, so removed rows
+ * leave empty maps behind. On the other hand, rows that are concurrently
+ * upserted by multiple peers are merged field-by-field.
+ *
+ * 'nested' stores all rows as Y.Maps nested inside the table's root-level
+ * Y.Map. Removed rows are always deleted completely. Rows are read and
+ * watched like in 'root' layout, but writes differ in two ways:
+ * - If multiple peers concurrently upsert a row that does not yet exist,
+ *   only one of their writes survives; the others are lost entirely.
+ * - Updates to rows that do not exist are ignored, so they are not merged
+ *   into the row when it is later upserted.
+ *
+ * Once a row exists, concurrent changes to it are merged in both layouts.
+ */
+export type StorageLayout = 'root' | 'nested';
+
+/**
+ * How insert() generates keys for new rows.
+ *
+ * 'uuid' generates random UUIDs (version 4). 'ulid' generates
+ * [ULIDs](https://github.com/ulid/spec), which sort by their creation time.
+ * Alternatively, a custom function can be given. Whatever the strategy, keys
+ * should be unlikely to collide between peers, since concurrent inserts with
+ * same key are merged into one row.
+ */
+export type KeyStrategy = 'uuid' | 'ulid' | (() => string);
+
+/**
+ * Upgrades data of a row to the next schema version. The row is given as
+ * plain, unvalidated data that also contains fields which are no longer in
+ * the current schema.
+ */
+export type Migration = (
+    row: Record<string, unknown>,
+) => Record<string, unknown>;
+
+export interface TableOptions {
+    /**
+     * Storage layout of the table. Defaults to 'root'. Use
+     * convertToNestedLayout() to migrate existing data between layouts.
+     */
+    layout?: StorageLayout;
+
+    /**
+     * Version of the table schema. This is stored with every row that is
+     * written. Defaults to 1, which is also the version of rows that were
+     * written before versioning was introduced.
+     */
+    version?: number;
+
+    /**
+     * Migrations, keyed by the schema version they upgrade rows to. When a
+     * row with an older schema version is read, all migrations between its
+     * version and the current one are applied in order. Versions without a
+     * migration are assumed to be compatible with the previous one (e.g. new
+     * fields have defaults).
+     */
+    migrations?: Record<number, Migration>;
+
+    /**
+     * How keys are generated for rows inserted with insert(). Defaults to
+     * 'uuid'.
+     */
+    keyStrategy?: KeyStrategy;
+
+    /**
+     * Fields that form the primary key of the table. Values of key fields
+     * must be strings or numbers. Defaults to ['key'].
+     *
+     * Single string keys are stored as-is. Other keys are JSON-encoded, so
+     * changing the primary key of an existing table makes its rows
+     * unreadable.
+     */
+    primaryKey?: readonly string[];
+
+    /**
+     * Secondary indexes of the table. Each index is a field name (or a
+     * dotted path to a nested field), or a list of them for compound
+     * indexes.
+     *
+     * Indexes are built in memory when they are first needed and kept up to
+     * date as the document changes. select() and watch() use them for
+     * queries that have equality or range conditions on indexed fields,
+     * combined with and(). Compound indexes are used when there are
+     * equality conditions on their first fields, optionally followed by a
+     * range condition on the next one.
+     */
+    indexes?: readonly (string | readonly string[])[];
+
+    /**
+     * Fields (or dotted paths to nested fields) that search() looks for words
+     * in. Strings, arrays of strings and text content of raw Yjs types, such
+     * as Y.Text and Y.XmlFragment, are searchable.
+     *
+     * Like other indexes, the full-text index is built in memory when it is
+     * first needed.
+     */
+    search?: readonly string[];
 }
 
-export interface Table<T extends TableBase> {
+export interface Table<
+    T extends TableBase,
+    K extends PrimaryKey<T> = PrimaryKey<T>,
+> {
     name: string;
     type: z.ZodType<T> & z.ZodObject;
+    layout: StorageLayout;
+    version: number;
+    migrations: Record<number, Migration>;
+    keyStrategy: KeyStrategy;
+    primaryKey: K;
+    indexes: readonly (readonly string[])[];
+    search: readonly string[];
 }
 
-export type Row<T extends Table<TableBase>> = z.output<T['type']>;
+export type Row<T extends { type: z.ZodType }> = z.output<T['type']>;
 
 /**
  * Defines a new y-query table.
  * @param name Name of the table. This MUST be unique, non-unique names may
  * lead to data corruption!
  * @param type Zod object schema for the table rows.
+ * @param options Additional table options.
  * @returns A table definition, consumed by most y-query APIs.
  */
+export function table<T extends TableBase & { key: string }>(
+    name: string,
+    type: z.ZodType<T> & z.ZodObject,
+    options?: TableOptions & { primaryKey?: readonly ['key'] },
+): Table<T, readonly ['key']>;
+export function table<T extends TableBase, const K extends PrimaryKey<T>>(
+    name: string,
+    type: z.ZodType<T> & z.ZodObject,
+    options: TableOptions & { primaryKey: K },
+): Table<T, K>;
 export function table<T extends TableBase>(
     name: string,
     type: z.ZodType<T> & z.ZodObject,
+    options: TableOptions = {},
 ): Table<T> {
     return {
         name,
         type,
+        layout: options.layout ?? 'root',
+        version: options.version ?? 1,
+        migrations: options.migrations ?? {},
+        keyStrategy: options.keyStrategy ?? 'uuid',
+        primaryKey: (options.primaryKey ?? ['key']) as PrimaryKey<T>,
+        indexes: (options.indexes ?? []).map((index) =>
+            typeof index === 'string' ? [index] : index,
+        ),
+        search: options.search ?? [],
     };
 }
@@ -1,6 +1,23 @@
 import type * as Y from 'yjs';
-import type { Table, TableBase } from './table';
-import { type DeepPartial, writeData } from './yjs-types';
+import { encodeKey, generateKey, rowKey } from './keys';
+import type { KeyValue, PrimaryKey, Table, TableBase } from './table';
+import {
+    clearData,
+    type DeepPartial,
+    incrementData,
+    writeData,
+} from './yjs-types';
+
+export interface WriteOptions {
+    /**
+     * Origin of the Yjs transaction that the change is made in. Watchers
+     * receive it in their change context, so this can be used to tell
+     * changes made by e.g. different parts of an application apart. If the
+     * change is made inside an existing transaction, its origin is used
+     * instead.
+     */
+    origin?: unknown;
+}
 
 /**
  * Inserts new or updates an existing row in a table.
@@ -11,16 +28,46 @@ import { type DeepPartial, writeData } from './yjs-types';
  * to avoid data loss if you expect concurrent upserts on same rows.
  * @param doc Database to operate on.
  * @param table Table to write to.
- * @param row Row id. Whenever possible, you should use generated row ids
- * (e.g. UUIDs) to avoid concurrent upserts. If unable, consider using raw
- * Yjs types for data you do not wish to lose due to last-writer-wins.
+ * @param row The row, including its primary key. Whenever possible, you
+ * should use generated keys (e.g. UUIDs, or insert()) to avoid concurrent
+ * upserts. If unable, consider using raw Yjs types for data you do not wish
+ * to lose due to last-writer-wins.
+ * @param options Write options.
  */
 export function upsert<T extends TableBase>(
     doc: Y.Doc,
     table: Table<T>,
-    row: T & { key: string },
+    row: T,
+    options: WriteOptions = {},
 ) {
-    writeData(doc, table, row.key, table.type.parse(row), true);
+    const parsed = table.type.parse(row);
+    doc.transact(() => {
+        writeData(doc, table, rowKey(table, parsed), parsed, true);
+    }, options.origin);
+}
+
+/**
+ * Inserts a new row to a table with a generated key.
+ *
+ * The key is generated according to the table's key strategy (see
+ * TableOptions.keyStrategy). Apart from that, this works like upsert().
+ * Only tables with a single string primary key are supported.
+ * @param doc Database to operate on.
+ * @param table Table to write to.
+ * @param row Row without a key.
+ * @param options Write options.
+ * @returns Key of the new row.
+ */
+export function insert<T extends TableBase, F extends keyof T & string>(
+    doc: Y.Doc,
+    table: Table<T, readonly [F]> & (string extends T[F] ? unknown : never),
+    row: Omit<T, F>,
+    options: WriteOptions = {},
+): string {
+    const key = generateKey(table.keyStrategy);
+    const [field] = table.primaryKey;
+    upsert(doc, table, { ...row, [field]: key } as T, options);
+    return key;
 }
 
 /**
@@ -30,6 +77,23 @@ export function upsert<T extends TableBase>(
  * last-writer-wins semantics apply. Raw Yjs shared types are not updated
  * using this function; just modify them directly.
  *
+ * Arrays can be modified with operations such as append() and removeAt()
+ * instead of replacing them entirely. If an array field is synced as Y.Array
+ * (using meta({ syncAs: Y.Array })), concurrent operations are merged, and
+ * fields of object items can be updated with updateAt().
+ *
+ * Records (z.record()) are synced as Y.Maps. Given entries are merged into
+ * existing ones, and entries can be deleted with unset(). Optional fields
+ * can be deleted with unset() too.
+ *
+ * Sets (z.set(), or arrays with meta({ set: true })) are synced as Y.Maps
+ * with members as keys. Members can be added and removed with addToSet()
+ * and removeFromSet(); additions win over concurrent removals.
+ *
+ * Strings that are synced as Y.Text (using z.string().meta({ syncAs: Y.Text }))
+ * are updated by editing only the part of text that changed, so concurrent
+ * edits to different parts of the text are merged.
+ *
  * If a row that does not exist is updated, the data is nevertheless synced.
  * The row will become visible when/if it is ever upserted. Although upserts
  * overwrite structured y-query data, raw Yjs shared types may retain some
@@ -38,33 +102,107 @@ export function upsert<T extends TableBase>(
  * upsert-update-remove cycles.
  * @param doc Database to operate on.
  * @param table Table to write to.
- * @param update Update to an existing row. Must have key, all other fields
- * are optional.
+ * @param update Update to an existing row. Must have all primary key
+ * fields, all other fields are optional.
+ * @param options Write options.
  */
-export function update<T extends TableBase>(
+export function update<T extends TableBase, K extends PrimaryKey<T>>(
     doc: Y.Doc,
-    table: Table<T>,
-    update: DeepPartial<T> & { key: string },
+    table: Table<T, K>,
+    update: NoInfer<DeepPartial<T> & Pick<T, K[number]>>,
+    options: WriteOptions = {},
 ): void {
     // Write without upserting; data will be synced, but won't be visible until someone upserts
-    writeData(doc, table, update.key, update, false);
+    doc.transact(() => {
+        writeData(doc, table, rowKey(table, update as T), update, false);
+    }, options.origin);
+}
+
+/**
+ * Names of numeric fields of a row.
+ */
+export type NumberField<T> = {
+    [P in keyof T]-?: T[P] extends number | undefined ? P : never;
+}[keyof T] &
+    string;
+
+/**
+ * Increments a number field of a table row.
+ *
+ * Counter fields (declared using z.number().meta({ counter: true })) store
+ * contribution of each peer separately, so concurrent increments from
+ * multiple peers are all counted. Other number fields are incremented with
+ * last-writer-wins semantics.
+ *
+ * Contributions are stored by Yjs client ID, which changes on every session
+ * (e.g. page load) unless the Y.Doc is given a fixed clientID. Entries of
+ * old sessions are never removed, so a counter grows by one entry for every
+ * session that has written to it. Avoid counters for fields that are written
+ * by a large number of short-lived sessions.
+ *
+ * Counters can also be written with upsert() and update(). That changes
+ * this peer's contribution so that the total matches the new value, but
+ * concurrent increments by other peers are added on top of it.
+ * @param doc Database to operate on.
+ * @param table Table to write to.
+ * @param key Primary key of the row.
+ * @param field Name of the field.
+ * @param delta Amount to increment by. Use negative values to decrement.
+ * @param options Write options.
+ */
+export function increment<T extends TableBase, K extends PrimaryKey<T>>(
+    doc: Y.Doc,
+    table: Table<T, K>,
+    key: KeyValue<T, K>,
+    field: NumberField<T>,
+    delta = 1,
+    options: WriteOptions = {},
+) {
+    // Like update(), this does not make the row visible
+    doc.transact(() => {
+        incrementData(doc, table, encodeKey(table, key), field, delta);
+    }, options.origin);
+}
+
+export interface RemoveOptions extends WriteOptions {
+    /**
+     * If true, the row's data is also cleared from the document, so that
+     * Yjs can garbage-collect it. Defaults to false (soft delete).
+     */
+    hard?: boolean;
 }
 
 /**
- * Soft-deletes a row from a table. The row will no longer be observable
- * using y-query, but its data is not actually deleted.
+ * Deletes a row from a table. The row will no longer be observable
+ * using y-query.
+ *
+ * By default, this is a soft delete; the row's data is not actually deleted.
+ * With hard deletion, fields, nested objects and raw Yjs shared types of the
+ * row are cleared too. If another peer concurrently updates the row, the row
+ * nevertheless stays deleted. Data that was written concurrently survives
+ * the clear, but it is not visible (just like update() on a row that does
+ * not exist) and gets overwritten if the key is ever upserted again.
+ *
+ * Tables with 'nested' storage layout always delete rows completely.
  * @param doc Database to operate on.
  * @param table Table to write to.
- * @param key Key in table.
+ * @param primaryKey Primary key of the row.
+ * @param options Deletion options.
  */
-export function remove<T extends TableBase>(
+export function remove<T extends TableBase, K extends PrimaryKey<T>>(
     doc: Y.Doc,
-    table: Table<T>,
-    key: string,
+    table: Table<T, K>,
+    primaryKey: KeyValue<T, K>,
+    options: RemoveOptions = {},
 ) {
-    // Delete from index only for now (soft delete)
-    // Old data will not ordinarily become visible, since upsert must overwrite it all
-    // TODO but we need hard delete SOMEHOW
-    const rows = doc.getMap(table.name);
-    rows.delete(key);
+    const key = encodeKey(table, primaryKey);
+    doc.transact(() => {
+        // Delete from index first, so that watchers see row's removal before its content is cleared
+        // Old data will not ordinarily become visible, since upsert must overwrite it all
+        const rows = doc.getMap(table.name);
+        rows.delete(key);
+        if (options.hard) {
+            clearData(doc, table, key);
+        }
+    }, options.origin);
 }
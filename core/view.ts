@@ -1,14 +1,26 @@
 import type * as Y from 'yjs';
-import type { Table, TableBase } from './table';
-import * as z from 'zod';
+import { evaluateFilter, type Filter, type Path } from './filter';
+import { candidateKeys } from './indexes';
 import {
-    allKeys,
-    getRow,
-    isRawYjsType,
+    compareSorted,
+    isWindowed,
+    rowComparator,
+    type SortField,
+    sortedIndex,
+    sortFields,
+    windowOf,
+} from './order';
+import { encodeKey } from './keys';
+import type { KeyValue, PrimaryKey, Table, TableBase } from './table';
+import {
+    changeContext,
+    changedKeys,
+    filterRow,
+    isPresent,
     observeKeys,
+    observeRow,
     readData,
     readDataPresent,
-    shouldSyncAsYMap,
 } from './yjs-types';
 
 /**
@@ -17,15 +29,61 @@ import {
  * Note that syncing rows between Yjs peers can take a while!
  * @param doc Database to operate on.
  * @param table Table to read from.
- * @param key Row key.
+ * @param key Primary key of the row.
  * @returns The row if it is present, or null otherwise.
  */
-export function getKey<T extends TableBase>(
+export function getKey<T extends TableBase, K extends PrimaryKey<T>>(
     doc: Y.Doc,
-    table: Table<T>,
-    key: string,
+    table: Table<T, K>,
+    key: KeyValue<T, K>,
 ): T | null {
-    return readData(doc, table, key);
+    return readData(doc, table, encodeKey(table, key));
+}
+
+/**
+ * Direction to order query results in.
+ */
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Field (or a dotted path to a nested field) to order query results by.
+ * Fields given as plain strings are ordered in ascending order.
+ */
+export type OrderBy<T> = Path<T> | { field: Path<T>; direction: SortDirection };
+
+/**
+ * Top-level field of a row.
+ */
+export type Field<T> = Exclude<Path<T>, `${string}.${string}`>;
+
+export interface QueryOptions<T> {
+    /**
+     * Fields to order the rows by. Rows that are equal by all of them are
+     * ordered by their keys. Values of different types are ordered so that
+     * missing values come first, then nulls, booleans, numbers, strings and
+     * everything else.
+     *
+     * If this is not given, rows are returned in no particular order, unless
+     * limit or offset are given; then, the rows are ordered by their keys.
+     */
+    orderBy?: OrderBy<T> | readonly OrderBy<T>[];
+
+    /**
+     * Maximum number of rows to return.
+     */
+    limit?: number;
+
+    /**
+     * Number of rows to skip from start of the ordered results.
+     */
+    offset?: number;
+
+    /**
+     * Fields to include in the rows. If this is given, only these fields
+     * are read and validated, which is faster for rows that have many or
+     * large fields. Fields that the rows are ordered by are read too.
+     */
+    fields?: readonly Field<T>[];
 }
 
 /**
@@ -33,30 +91,320 @@ export function getKey<T extends TableBase>(
  * @param doc Database to operate on.
  * @param table Table to read from.
  * @param query Query that the rows are evaluated against.
+ * @param options Ordering and limits of the results.
  * @returns A list of rows that match the given query. Empty list if none do.
  */
+export function select<T extends TableBase, F extends keyof T & string>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    options: Omit<QueryOptions<T>, 'fields'> & {
+        fields: readonly (F & Field<T>)[];
+    },
+): Pick<T, F>[];
+export function select<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    options?: QueryOptions<T>,
+): T[];
 export function select<T extends TableBase>(
     doc: Y.Doc,
     table: Table<T>,
     query: Filter<T>,
+    options: QueryOptions<T> = {},
 ): T[] {
-    const results: T[] = [];
-    for (const key of allKeys(doc, table)) {
-        const row = getRow(doc, table, key);
-        if (query(row)) {
+    const fields = readFieldsOf(options);
+    const results: [string, T][] = [];
+    for (const key of candidateKeys(doc, table, query)) {
+        if (evaluateFilter(query, filterRow(doc, table, key))) {
             // TODO we use getMap() again here... but hopefully it won't matter
-            const data = readDataPresent(doc, table, key);
+            const data = readDataPresent(doc, table, key, fields);
             if (data) {
-                results.push(data);
+                results.push([key, data]);
             } // else: row has not been fully replicated to us yet, so skip it
         }
     }
 
-    return results;
+    if (isWindowed(options)) {
+        results.sort(rowComparator(options.orderBy));
+        return windowOf(results, options).map(([, row]) => row);
+    }
+    return results.map(([, row]) => row);
+}
+
+export interface PageOptions<T> {
+    /**
+     * Fields to order the rows by. See QueryOptions.orderBy. Rows are always
+     * ordered by their keys after these fields.
+     */
+    orderBy?: QueryOptions<T>['orderBy'];
+
+    /**
+     * Cursor of the previous page, or null or undefined to get the first
+     * page. Cursors are only valid with the ordering they were created with;
+     * given other cursors, the first page is returned.
+     */
+    after?: string | null;
+
+    /**
+     * Maximum number of rows on the page. Must be positive.
+     */
+    limit: number;
+}
+
+export interface Page<T> {
+    /**
+     * Rows on this page, in order.
+     */
+    rows: T[];
+
+    /**
+     * Opaque cursor that gets the next page when passed as 'after', or null
+     * if there are no more rows.
+     */
+    cursor: string | null;
+}
+
+/**
+ * Selects one page of rows that match the given query from a table.
+ *
+ * Pages are located by values of the last row of previous page rather than
+ * by its position. Thus, rows that other peers add or remove concurrently
+ * never cause rows to be skipped or repeated, even if the last row itself is
+ * removed.
+ * @param doc Database to operate on.
+ * @param table Table to read from.
+ * @param query Query that the rows are evaluated against.
+ * @param options Ordering and size of the page, and where it starts.
+ * @returns Rows on the page and cursor to the next page.
+ * @throws RangeError if the limit is not positive.
+ */
+export function selectPage<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    options: PageOptions<T>,
+): Page<T> {
+    if (!(options.limit > 0)) {
+        // Empty page would have no last row to continue from
+        throw new RangeError(
+            `page limit must be positive, got ${options.limit}`,
+        );
+    }
+    const fields = sortFields(options.orderBy);
+    const after = decodeCursor(options.after, fields);
+
+    // Find and sort matching rows without reading all of them
+    const entries: [string, unknown[]][] = [];
+    for (const key of candidateKeys(doc, table, query)) {
+        const row = filterRow(doc, table, key);
+        if (!evaluateFilter(query, row)) {
+            continue;
+        }
+        const entry: [string, unknown[]] = [
+            key,
+            fields.map(({ path }) => row.get(path as Path<T>)),
+        ];
+        if (!after || compareSorted(fields, entry, after) > 0) {
+            entries.push(entry);
+        }
+    }
+    entries.sort((a, b) => compareSorted(fields, a, b));
+
+    const rows: T[] = [];
+    let last: [string, unknown[]] | undefined;
+    for (const entry of entries) {
+        const data = readDataPresent(doc, table, entry[0]);
+        if (!data) {
+            continue; // Row has not been fully replicated to us yet
+        } else if (rows.length === options.limit) {
+            // There are more rows after this page
+            return { rows, cursor: last ? encodeCursor(last) : null };
+        }
+        rows.push(data);
+        last = entry;
+    }
+    return { rows, cursor: null };
+}
+
+function encodeCursor([key, values]: [string, unknown[]]): string {
+    // Wrap values, because JSON has no undefined
+    return JSON.stringify([
+        key,
+        values.map((value) => (value === undefined ? [] : [value])),
+    ]);
+}
+
+function decodeCursor(
+    cursor: string | null | undefined,
+    fields: SortField[],
+): [string, unknown[]] | null {
+    if (!cursor) {
+        return null;
+    }
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(cursor);
+    } catch {
+        return null;
+    }
+    if (
+        !Array.isArray(parsed) ||
+        typeof parsed[0] !== 'string' ||
+        !Array.isArray(parsed[1]) ||
+        parsed[1].length !== fields.length ||
+        !parsed[1].every((value) => Array.isArray(value) && value.length <= 1)
+    ) {
+        return null; // Not created by us, or with different ordering
+    }
+    return [parsed[0], (parsed[1] as unknown[][]).map((value) => value[0])];
+}
+
+/**
+ * Watches a page of rows that match the given query. Unlike watch(), this
+ * does not keep track of rows outside of the page; instead, the page is
+ * selected again whenever rows of the table change.
+ * @param doc Database to operate on.
+ * @param table Table to read from.
+ * @param query Query that the rows are evaluated against.
+ * @param options Ordering and size of the page, and where it starts.
+ * @param watcher Watcher function. This is called with the current page
+ * immediately, and then every time rows of the table change. As second
+ * argument, the transaction that changed them is described (see watch()).
+ * @returns Function that, when called, stops this watch operation.
+ */
+export function watchPage<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    options: PageOptions<T>,
+    watcher: (page: Page<T>, context: ChangeContext | null) => void,
+): () => void {
+    const handler = (transaction: Y.Transaction) => {
+        if (changedKeys(doc, table, transaction).size !== 0) {
+            watcher(
+                selectPage(doc, table, query, options),
+                changeContext(doc, transaction),
+            );
+        }
+    };
+    const page = selectPage(doc, table, query, options); // Validates options
+    doc.on('afterTransaction', handler);
+    watcher(page, null);
+    return () => doc.off('afterTransaction', handler);
+}
+
+/**
+ * Finds fields that must be read for query results.
+ * @returns The fields, or undefined if all of them must be read.
+ */
+function readFieldsOf<T>(options: QueryOptions<T>): string[] | undefined {
+    if (!options.fields) {
+        return undefined;
+    }
+    const orderFields = sortFields(options.orderBy).map(
+        ({ path }) => path.split('.')[0] as string,
+    );
+    return [...new Set([...options.fields, ...orderFields])];
+}
+
+/**
+ * Checks if values read from rows are equal. Nested objects, arrays, sets
+ * and dates are compared by their contents, and everything else by identity.
+ */
+function sameValues(a: unknown, b: unknown): boolean {
+    if (a === b) {
+        return true;
+    } else if (a instanceof Date && b instanceof Date) {
+        return a.getTime() === b.getTime();
+    } else if (a instanceof Set && b instanceof Set) {
+        return a.size === b.size && Array.from(a).every((item) => b.has(item));
+    } else if (Array.isArray(a) && Array.isArray(b)) {
+        return (
+            a.length === b.length &&
+            a.every((item, i) => sameValues(item, b[i]))
+        );
+    } else if (!isPlainObject(a) || !isPlainObject(b)) {
+        return false;
+    }
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every((key) => sameValues(a[key], b[key]));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        Object.getPrototypeOf(value) === Object.prototype
+    );
+}
+
+/**
+ * Finds dotted paths of fields that differ between two versions of a row.
+ * Nested objects are compared field by field, and other values as in
+ * sameValues().
+ */
+function changedPaths(
+    previous: Record<string, unknown>,
+    current: Record<string, unknown>,
+    prefix = '',
+): string[] {
+    const paths: string[] = [];
+    for (const key of new Set([
+        ...Object.keys(previous),
+        ...Object.keys(current),
+    ])) {
+        const a = previous[key];
+        const b = current[key];
+        if (isPlainObject(a) && isPlainObject(b)) {
+            paths.push(...changedPaths(a, b, `${prefix}${key}.`));
+        } else if (!sameValues(a, b)) {
+            paths.push(`${prefix}${key}`);
+        }
+    }
+    return paths;
+}
+
+/**
+ * Creates description of a changed row for watchers.
+ */
+function rowChange<T>(key: string, previous: T, row: T): RowChange<T> {
+    const paths = changedPaths(
+        previous as Record<string, unknown>,
+        row as Record<string, unknown>,
+    );
+    return { key, row, previous, paths: paths as Path<T>[] };
 }
 
 export type WatchLevel = 'keys' | 'content' | 'deep';
 
+/**
+ * Information about the Yjs transaction that changes were made in.
+ */
+export interface ChangeContext {
+    /**
+     * Origin of the transaction. This is the origin given to write functions
+     * (see WriteOptions) or Y.Doc.transact(), the origin given to
+     * Y.applyUpdate() for changes received from other peers, or the
+     * Y.UndoManager for undos and redos. Null if none was given.
+     */
+    origin: unknown;
+
+    /**
+     * Whether the changes were made by this peer, as opposed to being
+     * received from other peers. Undos and redos are local changes.
+     */
+    local: boolean;
+
+    /**
+     * Client IDs of peers whose changes the transaction contained. Removals
+     * received from other peers are not attributed to anyone, since Yjs does
+     * not record who removed what.
+     */
+    clients: Set<number>;
+}
+
 export interface Subscription<T> {
     /**
      * Stops watching for events.
@@ -64,10 +412,15 @@ export interface Subscription<T> {
     unwatch: () => void;
 
     /**
-     * Currently visible rows by their keys. This map is mutated by y-query.
+     * Currently visible rows by their keys. Keys other than single strings
+     * are JSON-encoded (see TableOptions.primaryKey). This map is mutated by
+     * y-query.
      * It is guaranteed to be up-to-date when the associated watching function
      * has been called.
      *
+     * If the results are ordered or limited, the map iterates in their
+     * order.
+     *
      * Note that the changes are also passed to the watcher function. Unless
      * you're integrating a framework such as React, it is probably a better
      * idea to use those.
@@ -75,6 +428,39 @@ export interface Subscription<T> {
     visibleData: Map<string, T>;
 }
 
+/**
+ * Describes how a row changed. Previous value is the row as it was before
+ * the transaction that changed it.
+ *
+ * Paths of changed fields are dotted for fields of nested objects, e.g.
+ * 'author.name'. When a whole nested object is added or removed, only its
+ * path is included. Changes inside raw Yjs types (seen with 'deep' watch
+ * level) are not included, since both versions of the row contain the same
+ * shared type.
+ */
+export interface RowChange<T> {
+    key: string;
+    row: T;
+    previous: T;
+    paths: Path<T>[];
+}
+
+/**
+ * Change in position of a row in ordered query results. Applying these
+ * events in order to the previous results (e.g. with Array.splice()) produces
+ * the current results.
+ *
+ * 'insert' adds a row at the given index, and 'remove' removes one. 'move'
+ * moves a row from index to another; the index it is moved to is relative to
+ * the list without the row. 'update' replaces a row that changed without
+ * moving. Moved rows are given in their current shapes.
+ */
+export type PositionalEvent<T> =
+    | { type: 'insert'; index: number; key: string; row: T }
+    | { type: 'remove'; index: number; key: string; row: T }
+    | { type: 'move'; from: number; to: number; key: string; row: T }
+    | { type: 'update'; index: number; key: string; row: T };
+
 /**
  * Watches for changes in rows that match the given query.
  * @param doc Database to operate on.
@@ -90,11 +476,57 @@ export interface Subscription<T> {
  * provided in their current shapes, while removed rows are in the state
  * immediately before their removal. Note that changes that cause rows no
  * longer match the given query are considered removals for watcher!
- * As last argument, all watched rows are probided as a mutable Map.
+ * Changes made in one Yjs transaction (e.g. a sync with another peer) are
+ * delivered in one call after the transaction has completed.
+ * As fourth argument, all watched rows are probided as a mutable Map.
  * Unless you're integrating a framework such as React, you will probably
- * not need this.
+ * not need this. If the results are ordered or limited, the fifth argument
+ * contains positional changes to them. The sixth argument describes the
+ * transaction that made the changes, e.g. whether they came from another
+ * peer; it is null for the initial call. As the last argument, changed rows
+ * are described in the same order with their previous values and paths of
+ * the fields that changed.
+ * @param options Ordering and limits of the results. When they are given,
+ * only rows within the limits are visible to the watcher. As rows enter and
+ * leave the limits (e.g. when a row before them is removed), they are
+ * reported as added and removed. If only some fields are included in the
+ * rows, rows are reported as changed only when those fields change.
  * @returns Function that, when called, stops this watch operation.
  */
+export function watch<T extends TableBase, F extends keyof T & string>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    level: WatchLevel,
+    watcher: (
+        added: Pick<T, F>[],
+        removed: Pick<T, F>[],
+        changed: Pick<T, F>[],
+        visibleData: Map<string, Pick<T, F>>,
+        events: PositionalEvent<Pick<T, F>>[],
+        context: ChangeContext | null,
+        changes: RowChange<Pick<T, F>>[],
+    ) => void,
+    options: Omit<QueryOptions<T>, 'fields'> & {
+        fields: readonly (F & Field<T>)[];
+    },
+): () => void;
+export function watch<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    level: WatchLevel,
+    watcher: (
+        added: T[],
+        removed: T[],
+        changed: T[],
+        visibleData: Map<string, T>,
+        events: PositionalEvent<T>[],
+        context: ChangeContext | null,
+        changes: RowChange<T>[],
+    ) => void,
+    options?: QueryOptions<T>,
+): () => void;
 export function watch<T extends TableBase>(
     doc: Y.Doc,
     table: Table<T>,
@@ -105,252 +537,356 @@ export function watch<T extends TableBase>(
         removed: T[],
         changed: T[],
         visibleData: Map<string, T>,
+        events: PositionalEvent<T>[],
+        context: ChangeContext | null,
+        changes: RowChange<T>[],
     ) => void,
+    options: QueryOptions<T> = {},
 ): () => void {
-    const visibleData: Map<string, T> = new Map();
-
-    const rowUnobservers: Map<string, () => void> = new Map();
-    const observeRow = (
-        row: Y.Map<unknown>,
-        key: string,
-        level: WatchLevel,
+    const fields = readFieldsOf(options);
+    // Rows that match the query; unless results are ordered or limited, all of them are visible
+    const matching: Map<string, T> = new Map();
+    const deliver = isWindowed(options)
+        ? windowNotifier(matching, options, watcher)
+        : (
+              added: string[],
+              removed: [string, T][],
+              changed: [string, T][],
+              context: ChangeContext | null,
+          ) => {
+              if (added.length + removed.length + changed.length !== 0) {
+                  const changes = changed.map(([key, previous]) =>
+                      rowChange(key, previous, matching.get(key) as T),
+                  );
+                  watcher(
+                      added.map((key) => matching.get(key) as T),
+                      removed.map(([, row]) => row),
+                      changes.map(({ row }) => row),
+                      matching,
+                      [],
+                      context,
+                      changes,
+                  );
+              }
+          };
+
+    // Changes are collected while a transaction is in progress, and delivered together after it
+    const pendingAdded = new Set<string>();
+    const pendingRemoved = new Map<string, T>();
+    const pendingChanged = new Map<string, T>(); // Rows before their changes
+    const notify = (
+        added: string[],
+        removed: [string, T][],
+        changed: [string, T][],
     ) => {
-        const deep = level === 'deep';
-        const unobservers: (() => void)[] = [];
+        for (const [key, row] of removed) {
+            const previous = pendingChanged.get(key) ?? row;
+            pendingChanged.delete(key);
+            if (pendingAdded.has(key)) {
+                pendingAdded.delete(key); // Watcher never saw it
+            } else if (!pendingRemoved.has(key)) {
+                pendingRemoved.set(key, previous); // State before transaction
+            }
+        }
+        for (const key of added) {
+            pendingAdded.add(key);
+        }
+        for (const [key, previous] of changed) {
+            if (!pendingAdded.has(key) && !pendingChanged.has(key)) {
+                pendingChanged.set(key, previous);
+            }
+        }
+    };
+    const flush = (transaction: Y.Transaction) => {
+        const added = Array.from(pendingAdded);
+        const removed = Array.from(pendingRemoved);
+        const changed = Array.from(pendingChanged);
+        pendingAdded.clear();
+        pendingRemoved.clear();
+        pendingChanged.clear();
+        deliver(added, removed, changed, changeContext(doc, transaction));
+    };
+    doc.on('afterTransaction', flush);
 
+    const rowUnobservers: Map<string, () => void> = new Map();
+    const unobserveRow = (key: string) => {
+        const unobserve = rowUnobservers.get(key);
+        if (unobserve) {
+            unobserve();
+            rowUnobservers.delete(key);
+        }
+    };
+    const observeContent = (key: string) => {
         const rowWatcher = () => {
-            if (!query(row)) {
+            if (!evaluateFilter(query, filterRow(doc, table, key))) {
                 // Row was changed in a way that it no longer falls within our query!
-                const unobserver = rowUnobservers.get(key);
-                if (unobserver) {
-                    unobserver();
-                }
+                unobserveRow(key);
 
                 // If data was visible, notify watcher that it was removed
-                const data = visibleData.get(key);
+                const data = matching.get(key);
                 if (data) {
-                    visibleData.delete(key);
-                    watcher([], [data], [], visibleData);
+                    matching.delete(key);
+                    notify([], [[key, data]], []);
                 }
                 return;
             }
 
-            const data = readDataPresent(doc, table, key);
-            if (data) {
+            const data = readDataPresent(doc, table, key, fields);
+            const previous = matching.get(key) as T;
+            if (fields && sameValues(data, previous)) {
+                return; // Fields that are not included changed
+            } else if (data) {
                 // Content changed! Notify watcher
-                visibleData.set(key, data); // But make sure visible data is up-to-date before
-                watcher([], [], [data], visibleData);
+                matching.set(key, data); // But make sure visible data is up-to-date before
+                notify([], [], [[key, previous]]);
             } // else: incompletely synced changes violate schema; wait for sync to complete
         };
-
-        // Observe the row Y.Map itself
-        if (deep) {
-            row.observeDeep(rowWatcher);
-            unobservers.push(() => row.unobserveDeep(rowWatcher));
-        } else {
-            row.observe(rowWatcher);
-            unobservers.push(() => row.unobserve(rowWatcher));
-        }
-
-        // Also observe nested Y.Maps based on schema
-        // For 'content': observe z.object() fields (converted Y.Maps)
-        // For 'deep': also observe raw Yjs types
-        const rowKey = `${table.name}.${key}`;
-        for (const [field, fieldType] of Object.entries(table.type.shape)) {
-            const t = fieldType as z.ZodType;
-            if (shouldSyncAsYMap(t)) {
-                // Nested z.object() stored as separate Y.Map - observe it
-                const nestedMap = doc.getMap(`${rowKey}.${field}`);
-                if (deep) {
-                    nestedMap.observeDeep(rowWatcher);
-                    unobservers.push(() => nestedMap.unobserveDeep(rowWatcher));
-                } else {
-                    nestedMap.observe(rowWatcher);
-                    unobservers.push(() => nestedMap.unobserve(rowWatcher));
-                }
-            } else if (isRawYjsType(t) && level === 'deep') {
-                // Raw Yjs type - only observe at 'deep' level
-                const meta = z.globalRegistry.get(t);
-                const syncAs = meta?.syncAs as
-                    | (new () => Y.AbstractType<unknown>)
-                    | undefined;
-                if (syncAs) {
-                    const rawType = doc.get(`${rowKey}.${field}`, syncAs);
-                    if (rawType) {
-                        rawType.observeDeep(rowWatcher);
-                        unobservers.push(() =>
-                            rawType.unobserveDeep(rowWatcher),
-                        );
-                    }
-                }
-            }
-        }
-
-        rowUnobservers.set(key, () => {
-            for (const unobserve of unobservers) {
-                unobserve();
-            }
-        });
+        rowUnobservers.set(key, observeRow(doc, table, key, level, rowWatcher));
     };
 
     const watchContent = level === 'content' || level === 'deep';
-    const addRows = (addedKeys: Iterable<string>): [T[], string[]] => {
-        const added: T[] = [];
+    const addRows = (addedKeys: Iterable<string>): [string[], string[]] => {
+        const added: string[] = [];
         const removedKeys: string[] = []; // Removed = changed not to match the query anymore
         for (const key of addedKeys) {
-            const row = getRow(doc, table, key);
-            if (!query(row)) {
+            if (!evaluateFilter(query, filterRow(doc, table, key))) {
                 removedKeys.push(key);
                 continue; // Query shouldn't return anything about this key
             }
 
-            const data = readDataPresent(doc, table, key);
+            const data = readDataPresent(doc, table, key, fields);
             if (data) {
                 // Row is complete, notify the watcher immediately
-                added.push(data);
-                visibleData.set(key, data); // And remember to track this row's removal
+                added.push(key);
+                matching.set(key, data); // And remember to track this row's removal
 
                 // If requested, watch for changes in the row content
                 if (watchContent) {
-                    observeRow(row, key, level);
+                    observeContent(key);
                 }
             } else {
                 // Row is incompletely replicated and currently violates schema
                 // TODO consider that there might be other reasons for schema violations
-                // Watch it deeply until it becomes valid, then try addKeys again!
+                // Watch it deeply until it becomes valid, then try addRows again!
                 const rowWatcher = () => {
-                    const data = readDataPresent(doc, table, key);
-                    if (data) {
+                    if (readDataPresent(doc, table, key, fields)) {
                         // Row is complete, quit observing and notify watcher!
-                        addRows([key]);
+                        unobserveRow(key);
+                        const [added] = addRows([key]);
+                        notify(added, [], []);
                     } // else: still incomplete
                 };
-                row.observeDeep(rowWatcher);
-                rowUnobservers.set(key, rowWatcher);
+                rowUnobservers.set(
+                    key,
+                    observeRow(doc, table, key, 'deep', rowWatcher),
+                );
             }
         }
         return [added, removedKeys];
     };
 
-    // Observe key changes in all partitions
-    const handler = (addedKeys: string[], removedKeys: string[]) => {
-        // Look up and parse added rows
-        const [added, changedToRemoveKeys] = addRows(addedKeys);
-
-        // Purge removed keys from cache
-        const removed: T[] = [];
-        for (const key of [...removedKeys, ...changedToRemoveKeys]) {
-            const data = visibleData.get(key);
+    // Purges rows from cache, returning the ones that were visible
+    const removeRows = (removedKeys: Iterable<string>): [string, T][] => {
+        const removed: [string, T][] = [];
+        for (const key of removedKeys) {
+            const data = matching.get(key);
             if (data) {
-                removed.push(data);
-                visibleData.delete(key);
+                removed.push([key, data]);
+                matching.delete(key);
             } // else: it was never visible to watcher (due to e.g. query ignoring it) -> so do nothing
 
             // If we were observing the row, quit doing so
-            const unobserve = rowUnobservers.get(key);
-            if (unobserve) {
-                unobserve();
-            }
+            unobserveRow(key);
         }
+        return removed;
+    };
+
+    // Observe key changes in all partitions
+    const handler = (addedKeys: string[], removedKeys: string[]) => {
+        // Purge removed keys first; a key might be both removed and re-added
+        const removed = removeRows(removedKeys);
+
+        // Look up and parse added rows
+        const [added, changedToRemoveKeys] = addRows(addedKeys);
+        removed.push(...removeRows(changedToRemoveKeys));
 
         // Notify watcher about additions and removals
-        if (added.length !== 0 || removed.length !== 0) {
-            watcher(added, removed, [], visibleData);
-        }
+        notify(added, removed, []);
     };
     const unobserveTable = observeKeys(doc, table, handler);
 
     // Find initial set of keys and pass it to callback
-    const [initialRows] = addRows(allKeys(doc, table));
-    if (initialRows.length !== 0) {
-        watcher(initialRows, [], [], visibleData);
-    }
+    const [initialRows] = addRows(candidateKeys(doc, table, query));
+    deliver(initialRows, [], [], null);
 
     // Return subscription that allows e.g. unobserving everything
     return () => {
+        doc.off('afterTransaction', flush);
         unobserveTable();
         rowUnobservers.forEach((func) => void func());
     };
 }
 
+/**
+ * Creates a function that keeps track of which matching rows are visible
+ * when query results are ordered or limited, and notifies the watcher about
+ * changes in them.
+ * @param matching All rows that match the query, with their current data.
+ */
+function windowNotifier<T>(
+    matching: Map<string, T>,
+    options: QueryOptions<T>,
+    watcher: (
+        added: T[],
+        removed: T[],
+        changed: T[],
+        visibleData: Map<string, T>,
+        events: PositionalEvent<T>[],
+        context: ChangeContext | null,
+        changes: RowChange<T>[],
+    ) => void,
+) {
+    const compare = rowComparator(options.orderBy);
+    let sorted: [string, T][] = [];
+    const visibleData: Map<string, T> = new Map();
+    let visibleKeys: string[] = [];
+
+    return (
+        added: string[],
+        removed: [string, T][],
+        changed: [string, T][],
+        context: ChangeContext | null,
+    ) => {
+        // Re-sort rows that were removed, added or changed
+        const removedData = new Map(removed);
+        const previousRows = new Map(changed);
+        for (const key of added) {
+            if (removedData.has(key)) {
+                // Removed and re-added at once
+                previousRows.set(key, removedData.get(key) as T);
+            }
+        }
+        const removedKeys = new Set(removedData.keys());
+        const changedKeys = new Set(previousRows.keys());
+        if (removedKeys.size !== 0 || changedKeys.size !== 0) {
+            sorted = sorted.filter(
+                ([key]) => !removedKeys.has(key) && !changedKeys.has(key),
+            );
+        }
+        for (const key of new Set([...added, ...changedKeys])) {
+            const entry: [string, T] = [key, matching.get(key) as T];
+            sorted.splice(sortedIndex(sorted, entry, compare), 0, entry);
+        }
+
+        // Find out how to get from previously visible rows to currently visible ones
+        const visible = windowOf(sorted, options);
+        const nowVisible = new Set(visible.map(([key]) => key));
+        const events: PositionalEvent<T>[] = [];
+        const addedRows: T[] = [];
+        const removedRows: T[] = [];
+        const changes: RowChange<T>[] = [];
+        const keys = [...visibleKeys];
+        for (let i = keys.length - 1; i >= 0; i--) {
+            const key = keys[i] as string;
+            if (!nowVisible.has(key)) {
+                const row = visibleData.get(key) as T;
+                events.push({ type: 'remove', index: i, key, row });
+                removedRows.push(row);
+                keys.splice(i, 1);
+            }
+        }
+        visible.forEach(([key, row], i) => {
+            if (keys[i] === key) {
+                if (changedKeys.has(key)) {
+                    events.push({ type: 'update', index: i, key, row });
+                    changes.push(
+                        rowChange(key, previousRows.get(key) as T, row),
+                    );
+                }
+                return; // Already in right place
+            }
+            const from = keys.indexOf(key, i);
+            if (from === -1) {
+                events.push({ type: 'insert', index: i, key, row });
+                addedRows.push(row);
+            } else {
+                events.push({ type: 'move', from, to: i, key, row });
+                keys.splice(from, 1);
+                if (changedKeys.has(key)) {
+                    changes.push(
+                        rowChange(key, previousRows.get(key) as T, row),
+                    );
+                }
+            }
+            keys.splice(i, 0, key);
+        });
+
+        visibleKeys = keys;
+        visibleData.clear();
+        for (const [key, row] of visible) {
+            visibleData.set(key, row);
+        }
+        if (events.length !== 0) {
+            watcher(
+                addedRows,
+                removedRows,
+                changes.map(({ row }) => row),
+                visibleData,
+                events,
+                context,
+                changes,
+            );
+        }
+    };
+}
+
 /**
  * Watches for changes in a single row.
  * @param doc Database to operate on.
  * @param table Table to read from.
- * @param key Row key.
+ * @param primaryKey Primary key of the row.
  * @param level Watch level. If 'keys', the watcher is called when a row with
  * this key is added or removed. If 'content' or 'deep', the watcher is also
  * alerted about changes in row content (shallowly or deeply, respectively).
  * @param watcher Watcher function. This is called with the row's current
  * value when it changes, which can be null if the row (no longer) exists.
+ * Like with watch(), changes are delivered once per Yjs transaction, along
+ * with a description of the transaction (null for the initial call).
  * @returns Function that, when called, stops this watch operation.
  */
-export function watchKey<T extends TableBase>(
+export function watchKey<T extends TableBase, K extends PrimaryKey<T>>(
     doc: Y.Doc,
-    table: Table<T>,
-    key: string,
+    table: Table<T, K>,
+    primaryKey: KeyValue<T, K>,
     level: WatchLevel,
-    watcher: (newValue: T | null) => void,
+    watcher: (newValue: T | null, context: ChangeContext | null) => void,
 ): () => void {
-    let unobserveRow: (() => void) | null = null;
-    const observeRow = (row: Y.Map<unknown>) => {
-        const deep = level === 'deep';
-        const unobservers: (() => void)[] = [];
-
-        const rowWatcher = () => {
+    const key = encodeKey(table, primaryKey);
+
+    // Latest value is delivered after the transaction that changed it
+    let pending: { value: T | null } | null = null;
+    const flush = (transaction: Y.Transaction) => {
+        if (pending) {
+            const { value } = pending;
+            pending = null;
+            watcher(value, changeContext(doc, transaction));
+        }
+    };
+    doc.on('afterTransaction', flush);
+
+    let unobserveRow = () => {};
+    const observeContent = () => {
+        unobserveRow();
+        unobserveRow = observeRow(doc, table, key, level, () => {
+            if (!isPresent(doc, table, key)) {
+                return; // Row was removed, possibly clearing its content too
+            }
             const data = readDataPresent(doc, table, key);
             if (data) {
                 // Content changed! Notify watcher
-                watcher(data);
+                pending = { value: data };
             } // else: incompletely synced changes violate schema; wait for sync to complete
-        };
-
-        // Observe the row Y.Map itself
-        if (deep) {
-            row.observeDeep(rowWatcher);
-            unobservers.push(() => row.unobserveDeep(rowWatcher));
-        } else {
-            row.observe(rowWatcher);
-            unobservers.push(() => row.unobserve(rowWatcher));
-        }
-
-        // Also observe nested Y.Maps based on schema
-        const rowKey = `${table.name}.${key}`;
-        for (const [field, fieldType] of Object.entries(table.type.shape)) {
-            const t = fieldType as z.ZodType;
-            if (shouldSyncAsYMap(t)) {
-                // Nested z.object() stored as separate Y.Map - observe it
-                const nestedMap = doc.getMap(`${rowKey}.${field}`);
-                if (deep) {
-                    nestedMap.observeDeep(rowWatcher);
-                    unobservers.push(() => nestedMap.unobserveDeep(rowWatcher));
-                } else {
-                    nestedMap.observe(rowWatcher);
-                    unobservers.push(() => nestedMap.unobserve(rowWatcher));
-                }
-            } else if (isRawYjsType(t) && level === 'deep') {
-                // Raw Yjs type - only observe at 'deep' level
-                const meta = z.globalRegistry.get(t);
-                const syncAs = meta?.syncAs as
-                    | (new () => Y.AbstractType<unknown>)
-                    | undefined;
-                if (syncAs) {
-                    const rawType = doc.get(`${rowKey}.${field}`, syncAs);
-                    if (rawType) {
-                        rawType.observeDeep(rowWatcher);
-                        unobservers.push(() =>
-                            rawType.unobserveDeep(rowWatcher),
-                        );
-                    }
-                }
-            }
-        }
-
-        unobserveRow = () => {
-            for (const unobserve of unobservers) {
-                unobserve();
-            }
-        };
+        });
     };
 
     // Watch for addition/removal of this key
@@ -359,89 +895,25 @@ export function watchKey<T extends TableBase>(
             // Row appeared! If it has been fully synced, notify now!
             const row = readDataPresent(doc, table, key);
             if (row) {
-                watcher(row);
-            }
-            // Also watch for changes in its content
-            if (unobserveRow === null) {
-                observeRow(getRow(doc, table, key));
+                pending = { value: row };
             }
+            // Also watch for changes in its content (which may be stored in a new Y.Map)
+            observeContent();
         } else if (removed.includes(key)) {
             // Row disappeared, notify about that
-            watcher(null);
+            pending = { value: null };
         }
     });
 
     // If desired, observe content changes
-    if (level === 'content' || level === 'deep') {
-        observeRow(getRow(doc, table, key));
-    }
+    observeContent();
     // Finally, let the watcher know about row's current value (which may well be null)
-    watcher(readData(doc, table, key));
+    watcher(readData(doc, table, key), null);
 
     // Return function that unwatches the key
     return () => {
+        doc.off('afterTransaction', flush);
         unobserveKeys();
-        if (unobserveRow) {
-            unobserveRow();
-        }
-    };
-}
-
-export type Filter<_T> = (row: Y.Map<unknown>) => boolean;
-
-/**
- * Accepts any row.
- */
-export function any<_T>() {
-    return () => true;
-}
-
-/**
- * Accepts rows that have the given value.
- * @param key Key in row.
- * @param value Expected value.
- */
-export function eq<T, K extends keyof T & string>(
-    key: K,
-    value: T[K],
-): Filter<T> {
-    return (row) => row.get(key) === value;
-}
-
-/**
- * Accepts rows that are rejected by the given filter.
- * @param filter NOT filter.
- */
-export function not<T>(filter: Filter<T>): Filter<T> {
-    return (row) => !filter(row);
-}
-
-/**
- * Accepts rows that are accepted by all given filters.
- * @param filters AND filters.
- */
-export function and<T>(...filters: Filter<T>[]): Filter<T> {
-    return (row) => {
-        for (const filter of filters) {
-            if (!filter(row)) {
-                return false;
-            }
-        }
-        return true;
-    };
-}
-
-/**
- * Accepts rows that are accepted by at least one of the given filters.
- * @param filters OR filters.
- */
-export function or<T>(...filters: Filter<T>[]): Filter<T> {
-    return (row) => {
-        for (const filter of filters) {
-            if (filter(row)) {
-                return true;
-            }
-        }
-        return false;
+        unobserveRow();
     };
 }
@@ -2,8 +2,15 @@ import { expect, test } from 'bun:test';
 import z from 'zod';
 import * as Y from 'yjs';
 import { table } from './table';
-import { any, getKey, watch, watchKey } from './view';
-import { update, upsert } from './update';
+import { any } from './filter';
+import {
+    type ChangeContext,
+    getKey,
+    type RowChange,
+    watch,
+    watchKey,
+} from './view';
+import { remove, update, upsert } from './update';
 
 // Test table with all field types relevant for watcher testing
 const WatchTestTable = table(
@@ -17,6 +24,8 @@ const WatchTestTable = table(
     }),
 );
 
+type WatchRow = z.infer<typeof WatchTestTable.type>;
+
 function createTestRow() {
     return {
         key: '1',
@@ -172,6 +181,196 @@ test("'content' level does NOT trigger on raw Y.XmlFragment changes", () => {
     expect(changeCount).toBe(0);
 });
 
+// =============================================================================
+// Transaction batching tests
+// =============================================================================
+
+test('Changes of a transaction are delivered in one call', () => {
+    const doc = new Y.Doc();
+    for (let i = 0; i < 10; i++) {
+        upsert(doc, WatchTestTable, { ...createTestRow(), key: `${i}` });
+    }
+
+    const calls: [string[], string[], string[]][] = [];
+    watch(doc, WatchTestTable, any(), 'content', (added, removed, changed) => {
+        calls.push([
+            added.map((row) => row.key),
+            removed.map((row) => row.key),
+            changed.map((row) => row.key),
+        ]);
+    });
+    calls.length = 0; // Ignore initial call
+
+    doc.transact(() => {
+        for (let i = 0; i < 5; i++) {
+            update(doc, WatchTestTable, { key: `${i}`, simple: 'changed' });
+        }
+        update(doc, WatchTestTable, {
+            key: '5',
+            nested: { value: 'changed' },
+        });
+        remove(doc, WatchTestTable, '6');
+        upsert(doc, WatchTestTable, { ...createTestRow(), key: 'new' });
+        expect(calls).toHaveLength(0); // Not until transaction completes
+    });
+    expect(calls).toEqual([[['new'], ['6'], ['0', '1', '2', '3', '4', '5']]]);
+
+    // Rows that were added and removed within a transaction are never seen
+    doc.transact(() => {
+        upsert(doc, WatchTestTable, { ...createTestRow(), key: 'temp' });
+        remove(doc, WatchTestTable, 'temp');
+    });
+    expect(calls).toHaveLength(1);
+});
+
+test('Remote changes are delivered in one call', () => {
+    const doc = new Y.Doc();
+    const remote = new Y.Doc();
+    let callCount = 0;
+    let visible = 0;
+    watch(doc, WatchTestTable, any(), 'content', (_a, _r, _c, visibleData) => {
+        callCount++;
+        visible = visibleData.size;
+    });
+
+    for (let i = 0; i < 200; i++) {
+        upsert(remote, WatchTestTable, { ...createTestRow(), key: `${i}` });
+    }
+    Y.applyUpdate(doc, Y.encodeStateAsUpdate(remote));
+    expect([callCount, visible]).toEqual([1, 200]);
+
+    remote.transact(() => {
+        for (let i = 0; i < 200; i++) {
+            update(remote, WatchTestTable, { key: `${i}`, simple: 'changed' });
+        }
+    });
+    Y.applyUpdate(doc, Y.encodeStateAsUpdate(remote));
+    expect(callCount).toBe(2);
+});
+
+// =============================================================================
+// Change context tests
+// =============================================================================
+
+test('Watchers receive origin and peers of changes', () => {
+    const doc = new Y.Doc();
+    const remote = new Y.Doc();
+    const contexts: (ChangeContext | null)[] = [];
+    watch(doc, WatchTestTable, any(), 'content', (...args) => {
+        contexts.push(args[5]);
+    });
+    upsert(doc, WatchTestTable, createTestRow(), { origin: 'editor' });
+    expect(contexts[0]).toEqual({
+        origin: 'editor',
+        local: true,
+        clients: new Set([doc.clientID]),
+    });
+
+    update(doc, WatchTestTable, { key: '1', simple: 'changed' });
+    expect(contexts[1]?.origin).toBeNull();
+
+    Y.applyUpdate(remote, Y.encodeStateAsUpdate(doc));
+    update(remote, WatchTestTable, { key: '1', simple: 'remote' });
+    Y.applyUpdate(
+        doc,
+        Y.encodeStateAsUpdate(remote, Y.encodeStateVector(doc)),
+        'sync',
+    );
+    expect(contexts[2]).toEqual({
+        origin: 'sync',
+        local: false,
+        clients: new Set([remote.clientID]),
+    });
+
+    remove(doc, WatchTestTable, '1', { origin: 'editor' });
+    expect(contexts[3]?.origin).toBe('editor');
+    expect(contexts).toHaveLength(4);
+});
+
+test('Key watchers receive origin of changes', () => {
+    const doc = new Y.Doc();
+    const calls: [string | null, unknown][] = [];
+    watchKey(doc, WatchTestTable, '1', 'content', (row, context) => {
+        calls.push([row?.simple ?? null, context?.origin]);
+    });
+
+    // Row is added and changed in one transaction
+    doc.transact(() => {
+        upsert(doc, WatchTestTable, createTestRow());
+        update(doc, WatchTestTable, { key: '1', simple: 'changed' });
+    }, 'import');
+    update(doc, WatchTestTable, { key: '1', simple: 'edited' });
+    remove(doc, WatchTestTable, '1', { origin: 'editor' });
+    expect(calls).toEqual([
+        [null, undefined],
+        ['changed', 'import'],
+        ['edited', null],
+        [null, 'editor'],
+    ]);
+});
+
+// =============================================================================
+// Field-level diff tests
+// =============================================================================
+
+test('Changed rows are described with previous values and paths', () => {
+    const doc = new Y.Doc();
+    upsert(doc, WatchTestTable, createTestRow());
+
+    const changes: RowChange<WatchRow>[][] = [];
+    watch(doc, WatchTestTable, any(), 'content', (...args) => {
+        changes.push(args[6]);
+    });
+    changes.length = 0; // Ignore initial call
+
+    update(doc, WatchTestTable, { key: '1', nested: { value: 'changed' } });
+    expect(changes[0]).toHaveLength(1);
+    expect(changes[0]?.[0]?.paths).toEqual(['nested.value']);
+    expect(changes[0]?.[0]?.previous.nested).toEqual({ value: 'world' });
+    expect(changes[0]?.[0]?.row.nested).toEqual({ value: 'changed' });
+
+    // Previous value is the row before the whole transaction
+    doc.transact(() => {
+        update(doc, WatchTestTable, { key: '1', simple: 'first' });
+        update(doc, WatchTestTable, { key: '1', simple: 'second' });
+    });
+    expect(changes[1]?.[0]?.paths).toEqual(['simple']);
+    expect(changes[1]?.[0]?.previous.simple).toBe('hello');
+    expect(changes[1]?.[0]?.row.simple).toBe('second');
+    expect(changes).toHaveLength(2);
+});
+
+test('Changed rows of ordered results are described', () => {
+    const doc = new Y.Doc();
+    upsert(doc, WatchTestTable, createTestRow());
+    upsert(doc, WatchTestTable, { ...createTestRow(), key: '2' });
+
+    const changes: RowChange<WatchRow>[][] = [];
+    watch(
+        doc,
+        WatchTestTable,
+        any(),
+        'content',
+        (...args) => {
+            changes.push(args[6]);
+        },
+        { orderBy: 'simple', limit: 2 },
+    );
+    changes.length = 0; // Ignore initial call
+
+    update(doc, WatchTestTable, { key: '2', simple: 'abc' });
+    expect(changes).toEqual([
+        [
+            {
+                key: '2',
+                row: expect.objectContaining({ simple: 'abc' }),
+                previous: expect.objectContaining({ simple: 'hello' }),
+                paths: ['simple'],
+            },
+        ],
+    ]);
+});
+
 // =============================================================================
 // 'deep' level tests
 // =============================================================================
@@ -276,3 +475,20 @@ test("watchKey 'deep' level triggers on raw Y.Map changes", () => {
 
     expect(callCount).toBe(1);
 });
+
+test('watchKey reports hard removal of row with optional fields', () => {
+    const doc = new Y.Doc();
+    const OptionalTable = table(
+        'optionals',
+        z.object({ key: z.string(), note: z.string().optional() }),
+    );
+    upsert(doc, OptionalTable, { key: 'k', note: 'hello' });
+
+    const values: unknown[] = [];
+    watchKey(doc, OptionalTable, 'k', 'content', (row) => {
+        values.push(row);
+    });
+    remove(doc, OptionalTable, 'k', { hard: true });
+    expect(getKey(doc, OptionalTable, 'k')).toBeNull();
+    expect(values).toEqual([{ key: 'k', note: 'hello' }, null]);
+});
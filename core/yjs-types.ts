@@ -1,121 +1,578 @@
 import * as Y from 'yjs';
 import * as z from 'zod';
+import type { FilterRow, PathValue } from './filter';
+import { decodeKey } from './keys';
+import {
+    type ArrayOperation,
+    applyArrayOperation,
+    applySetOperation,
+    isArrayOperation,
+    isSetOperation,
+    isUnset,
+    type MutableArray,
+    type SetOperation,
+    type Unset,
+} from './operations';
 import type { Table, TableBase } from './table';
+import type { ChangeContext, WatchLevel } from './view';
+
+/**
+ * Location of an object's fields in the document.
+ */
+interface Node {
+    /**
+     * Y.Map that contains the fields.
+     */
+    map: Y.Map<unknown>;
+
+    /**
+     * Name of the map, if it is a root-level type. In 'root' layout, nested
+     * objects and raw Yjs types of root-level maps are also root-level types.
+     */
+    root?: string;
+}
+
+/**
+ * Field that stores schema version of a row in 'nested' layout.
+ */
+const VERSION_FIELD = '$version';
+
+/**
+ * Any Yjs shared type, regardless of its event type.
+ */
+// biome-ignore lint/suspicious/noExplicitAny: Yjs types are invariant in their event types
+export type AnyYType = Y.AbstractType<any>;
+
+type SharedType = new () => AnyYType;
+
+/**
+ * How a field's value is stored in the document.
+ */
+type FieldKind =
+    | 'union'
+    | 'object'
+    | 'record'
+    | 'array'
+    | 'set'
+    | 'text'
+    | 'counter'
+    | 'raw'
+    | 'value';
+
+function fieldKind(field: z.ZodType): FieldKind {
+    const meta = metaOf(field);
+    const t = unwrap(field);
+    const syncAs = meta?.syncAs;
+    const shallow = meta?.shallow === true;
+    if (meta?.counter === true && t instanceof z.ZodNumber) {
+        return 'counter';
+    }
+
+    // Auto-infer syncAs: Y.Map for nested z.object(), z.discriminatedUnion() and z.record() unless shallow: true
+    if (!shallow && (!syncAs || syncAs === Y.Map)) {
+        if (t instanceof z.ZodDiscriminatedUnion) {
+            return 'union';
+        } else if (t instanceof z.ZodObject) {
+            return 'object';
+        } else if (t instanceof z.ZodRecord) {
+            return 'record';
+        }
+    }
+    if (!shallow && syncAs === Y.Array && t instanceof z.ZodArray) {
+        return 'array';
+    } else if (
+        !shallow &&
+        !syncAs &&
+        (t instanceof z.ZodSet ||
+            (meta?.set === true && t instanceof z.ZodArray))
+    ) {
+        return 'set';
+    } else if (syncAs === Y.Text && t instanceof z.ZodString) {
+        return 'text';
+    }
+    return syncAs ? 'raw' : 'value';
+}
+
+function rowNode<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    key: string,
+    create: boolean,
+): Node | null {
+    if (table.layout === 'nested') {
+        const rows = doc.getMap(table.name);
+        const row = rows.get(key);
+        if (row instanceof Y.Map) {
+            return { map: row };
+        } else if (!create) {
+            return null;
+        }
+        const created = new Y.Map();
+        rows.set(key, created);
+        return { map: created };
+    }
+    const root = `${table.name}.${key}`;
+    return { map: doc.getMap(root), root };
+}
+
+function childNode(
+    doc: Y.Doc,
+    node: Node,
+    field: string,
+    create: boolean,
+): Node | null {
+    if (node.root !== undefined) {
+        const root = `${node.root}.${field}`;
+        return { map: doc.getMap(root), root };
+    }
+    const child = node.map.get(field);
+    if (child instanceof Y.Map) {
+        return { map: child };
+    } else if (!create) {
+        return null;
+    }
+    const created = new Y.Map();
+    node.map.set(field, created);
+    return { map: created };
+}
+
+function rawType(
+    doc: Y.Doc,
+    node: Node,
+    field: string,
+    syncAs: SharedType,
+    value?: unknown,
+): Y.AbstractType<unknown> | null {
+    if (node.root !== undefined) {
+        return doc.get(`${node.root}.${field}`, syncAs);
+    }
+    const existing = node.map.get(field);
+    if (existing instanceof syncAs) {
+        return existing;
+    } else if (value === undefined) {
+        return null; // Not asked to create it
+    }
+
+    // Use the given instance if possible, but do not try to move types that are already in a document
+    let created: Y.AbstractType<unknown>;
+    if (value instanceof syncAs) {
+        created = value.doc ? value.clone() : value;
+    } else {
+        created = new syncAs();
+    }
+    node.map.set(field, created);
+    return created;
+}
+
+function syncAsOf(t: z.ZodType): SharedType {
+    return metaOf(t)?.syncAs as SharedType;
+}
+
+/**
+ * Removes optional and default wrappers from schema of a field. Fields are
+ * stored the same way regardless of them.
+ */
+function unwrap(t: z.ZodType): z.ZodType {
+    let inner = t;
+    while (inner instanceof z.ZodOptional || inner instanceof z.ZodDefault) {
+        inner = inner.def.innerType as z.ZodType;
+    }
+    return inner;
+}
+
+function metaOf(t: z.ZodType): Record<string, unknown> | undefined {
+    // Metadata may be on the wrapper or on the wrapped type
+    let current = t;
+    for (;;) {
+        const meta = z.globalRegistry.get(current);
+        if (meta) {
+            return meta;
+        } else if (
+            current instanceof z.ZodOptional ||
+            current instanceof z.ZodDefault
+        ) {
+            current = current.def.innerType as z.ZodType;
+        } else {
+            return undefined;
+        }
+    }
+}
 
 export function readData<T extends TableBase>(
     doc: Y.Doc,
     table: Table<T>,
     key: string,
 ): T | null {
-    const rows = doc.getMap(table.name);
-    const present = rows.has(key);
-    return present
-        ? readObject(doc, `${table.name}.${key}`, table.type, key)
-        : null;
+    return isPresent(doc, table, key) ? readDataPresent(doc, table, key) : null;
 }
 
+/**
+ * Reads a row that is present in the table.
+ * @param fields If given, only these top-level fields are read and validated.
+ * @returns The row, or null if it does not match the schema (yet).
+ */
 export function readDataPresent<T extends TableBase>(
     doc: Y.Doc,
     table: Table<T>,
     key: string,
+    fields?: readonly string[],
 ): T | null {
-    return readObject(doc, `${table.name}.${key}`, table.type, key);
+    const node = rowNode(doc, table, key, false);
+    if (!node) {
+        return null;
+    }
+    const type = fields ? projectedType(table.type, fields) : table.type;
+    const version = rowVersion(doc, table, key) ?? table.version;
+    // Primary key is not stored in row, it is in the table's index
+    const keyFields = decodeKey(table, key);
+    if (version >= table.version) {
+        return readObject(doc, node, type, keyFields);
+    }
+
+    // Row was written with an older schema; upgrade it before validating
+    // Fields that are not in the current schema might be needed by migrations, so read them too
+    let data = readFields(doc, node, table.type, true) as Record<
+        string,
+        unknown
+    >;
+    Object.assign(data, keyFields);
+    for (let target = version + 1; target <= table.version; target++) {
+        const migration = table.migrations[target];
+        if (migration) {
+            data = migration(data);
+        }
+    }
+    return parseObject(type, data, keyFields);
 }
 
-function readObject<T>(
+const projectedTypes = new WeakMap<z.ZodObject, Map<string, z.ZodObject>>();
+
+/**
+ * Gets schema that has only some fields of an object schema.
+ */
+function projectedType<T>(
+    type: z.ZodType<T> & z.ZodObject,
+    fields: readonly string[],
+): z.ZodType<T> & z.ZodObject {
+    const cache = projectedTypes.get(type) ?? new Map();
+    projectedTypes.set(type, cache);
+    const id = JSON.stringify(fields);
+    let projected = cache.get(id);
+    if (!projected) {
+        const mask = fields.filter((field) => field in type.shape);
+        projected = type.pick(
+            Object.fromEntries(mask.map((field) => [field, true])),
+        );
+        cache.set(id, projected);
+    }
+    return projected as z.ZodType<T> & z.ZodObject;
+}
+
+/**
+ * Finds fields of a row whose values come from schema defaults instead of
+ * the document.
+ * @returns Paths of the fields (e.g. 'address.city'), or null if the row does
+ * not exist or does not match the schema.
+ */
+export function defaultedFields<T extends TableBase>(
     doc: Y.Doc,
+    table: Table<T>,
     key: string,
+): string[] | null {
+    const node = rowNode(doc, table, key, false);
+    const data = readDataPresent(doc, table, key);
+    if (!node || !data) {
+        return null;
+    }
+    const stored = readFields(doc, node, table.type, true);
+    Object.assign(stored, decodeKey(table, key));
+    const paths: string[] = [];
+    findDefaults(stored, data, '', paths);
+    return paths;
+}
+
+function findDefaults(
+    stored: unknown,
+    parsed: unknown,
+    prefix: string,
+    paths: string[],
+) {
+    if (!isPlainObject(parsed)) {
+        return; // Nothing to compare inside
+    }
+    for (const [field, value] of Object.entries(parsed)) {
+        const storedValue = isPlainObject(stored) ? stored[field] : undefined;
+        if (storedValue === undefined && value !== undefined) {
+            paths.push(prefix + field);
+        } else {
+            findDefaults(storedValue, value, `${prefix}${field}.`, paths);
+        }
+    }
+}
+
+function readObject<T>(
+    doc: Y.Doc,
+    node: Node,
     type: z.ZodType<T> & z.ZodObject,
-    userKey?: string,
+    keyFields?: Record<string, unknown>,
 ): T | null {
-    const row = doc.getMap(key);
+    return parseObject(type, readFields(doc, node, type, false), keyFields);
+}
+
+function parseObject<T>(
+    type: z.ZodType<T> & z.ZodObject,
+    data: Record<string, unknown>,
+    keyFields?: Record<string, unknown>,
+): T | null {
+    Object.assign(data, keyFields);
+
+    // Assume errors are just data that hasn't been fully replicated here
+    // and do not return them
+    const parsed = type.safeParse(data);
+    return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Reads fields of an object without validating them.
+ * @param loose If true, nested objects are not validated either, and fields
+ * that are not in the schema are included.
+ */
+function readFields(
+    doc: Y.Doc,
+    node: Node,
+    type: z.ZodObject,
+    loose: boolean,
+): Record<string, unknown> {
     const data: Record<string, unknown> = {};
     for (const [field, t] of Object.entries(type.shape)) {
-        let value: unknown;
-
-        // Figure out where the field's value is actually stored
-        const meta = z.globalRegistry.get(t);
-        const syncAs = meta?.syncAs;
-        const shallow = meta?.shallow === true;
+        data[field] = readField(doc, node, field, t, loose);
+    }
 
-        // Auto-infer syncAs: Y.Map for nested z.object() and z.discriminatedUnion() unless shallow: true
-        const isNestedObject = t.type === 'object';
-        const isUnion = t instanceof z.ZodDiscriminatedUnion;
-        const shouldSyncAsMap =
-            (syncAs === Y.Map || (!syncAs && (isNestedObject || isUnion))) &&
-            !shallow;
+    if (loose) {
+        for (const [field, value] of node.map.entries()) {
+            if (!(field in data) && field !== VERSION_FIELD) {
+                data[field] =
+                    value instanceof Y.AbstractType ? value.toJSON() : value;
+            }
+        }
+    }
+    return data;
+}
 
-        if (shouldSyncAsMap && isUnion) {
+function readField(
+    doc: Y.Doc,
+    node: Node,
+    field: string,
+    t: z.ZodType,
+    loose: boolean,
+): unknown {
+    // Figure out where the field's value is actually stored
+    const kind = fieldKind(t);
+    if (kind === 'union' || kind === 'object' || kind === 'record') {
+        const child = childNode(doc, node, field, false);
+        if (!child || child.map.size === 0) {
+            return missingValue(node, field, t, kind);
+        }
+        if (kind === 'union') {
             // Discriminated union stored in separate Y.Map
-            value = readUnion(doc, `${key}.${field}`, t);
-            if (value == null) {
-                return null; // Inner union not yet fully replicated
-            }
-        } else if (shouldSyncAsMap && isNestedObject) {
+            // If inner union is not yet fully replicated, the row won't match schema
+            return readUnion(
+                doc,
+                child,
+                unwrap(t) as z.ZodDiscriminatedUnion,
+                loose,
+            );
+        } else if (kind === 'object') {
             // Nested object stored in separate Y.Map - convert to plain JS object
             // Since it, too, might have nested Yjs objects, we need to do this recursively
-            value = readObject(doc, `${key}.${field}`, t);
-            if (value == null) {
-                // Inner object not yet fully replicated
-                return null; // Entire row must match schema for us to return it
-            }
-        } else if (syncAs) {
-            // Raw Yjs type (Y.XmlFragment, Y.Array, etc.) - present as-is
-            value = doc.get(`${key}.${field}`, syncAs as any); // TODO type checks
+            return loose
+                ? readFields(doc, child, unwrap(t) as z.ZodObject, true)
+                : readObject(doc, child, unwrap(t) as z.ZodObject);
         } else {
-            // As-is. Strings, booleans, whatever else (or shallow nested objects)
-            value = row.get(field);
+            // Record stored in separate Y.Map, one entry per key
+            return readRecord(doc, child, unwrap(t) as z.ZodRecord, loose);
         }
-        data[field] = value;
-    }
-    if (userKey && 'key' in type.shape) {
-        data.key = userKey;
+    } else if (kind === 'array') {
+        // Y.Array of values or Y.Maps - convert to plain JS array
+        const array = rawType(doc, node, field, Y.Array);
+        return array
+            ? readArray(
+                  doc,
+                  array as Y.Array<unknown>,
+                  (unwrap(t) as z.ZodArray).element as z.ZodType,
+                  loose,
+              )
+            : undefined;
+    } else if (kind === 'set') {
+        // Set stored in separate Y.Map, members as keys - convert to array or Set
+        const child = childNode(doc, node, field, false);
+        if (!child) {
+            return undefined;
+        }
+        const members = readSet(child);
+        return unwrap(t) instanceof z.ZodSet ? new Set(members) : members;
+    } else if (kind === 'counter') {
+        // Counter stored in separate Y.Map - sum of all clients' contributions
+        const child = childNode(doc, node, field, false);
+        return child ? readCounter(child) : undefined;
+    } else if (kind === 'text') {
+        // Y.Text - present as plain string
+        const text = rawType(doc, node, field, Y.Text) as Y.Text | null;
+        if (
+            text?.length === 0 &&
+            text._start === null &&
+            t.safeParse(undefined).success
+        ) {
+            // In 'root' layout, the Y.Text exists even if the field has never been written
+            // Empty string is never stored, so let the field's default or optionality apply
+            return undefined;
+        }
+        return text?.toString();
+    } else if (kind === 'raw') {
+        // Raw Yjs type (Y.XmlFragment, Y.Array, etc.) - present as-is
+        return rawType(doc, node, field, syncAsOf(t)) ?? undefined;
+    } else {
+        // As-is. Strings, booleans, whatever else (or shallow nested objects)
+        return node.map.get(field);
     }
+}
 
-    // Assume errors are just data that hasn't been fully replicated here
-    // and do not return them
-    const parsed = type.safeParse(data);
-    return parsed.success ? parsed.data : null;
+/**
+ * Gets value of a nested object, union or record that has nothing stored in
+ * its Y.Map. This happens when the field was added to schema after the row
+ * was written, and when it was written as a plain value by an older version
+ * of y-query.
+ */
+function missingValue(
+    node: Node,
+    field: string,
+    t: z.ZodType,
+    kind: FieldKind,
+): unknown {
+    const legacy = node.map.get(field);
+    if (isPlainObject(legacy)) {
+        return legacy;
+    }
+    // Let Zod apply default value of the field, if it has one
+    // Otherwise, assume an empty object; its fields might have defaults
+    return kind === 'union' || t.safeParse(undefined).success ? undefined : {};
 }
 
 function readUnion(
     doc: Y.Doc,
-    key: string,
+    node: Node,
     type: z.ZodDiscriminatedUnion,
+    loose: boolean,
 ): Record<string, unknown> | null {
-    const map = doc.getMap(key);
-
-    const discriminator = type.def.discriminator;
-    const options = type.options as z.ZodObject[];
-
-    const discriminatorValue = map.get(discriminator);
+    const discriminatorValue = node.map.get(type.def.discriminator);
     if (discriminatorValue === undefined) {
         return null; // Not yet replicated
     }
 
+    const variantSchema = findVariant(type, discriminatorValue);
+    if (!variantSchema) {
+        return null; // Invalid discriminator value
+    }
+
+    // Read the variant as an object
+    return loose
+        ? readFields(doc, node, variantSchema, true)
+        : readObject(doc, node, variantSchema);
+}
+
+function readRecord(
+    doc: Y.Doc,
+    node: Node,
+    type: z.ZodRecord,
+    loose: boolean,
+): Record<string, unknown> {
+    const valueType = type.valueType as z.ZodType;
+    const data: Record<string, unknown> = {};
+    for (const entry of node.map.keys()) {
+        data[entry] = readField(doc, node, entry, valueType, loose);
+    }
+    return data;
+}
+
+function readSet(node: Node): unknown[] {
+    // Order of map entries may differ between peers, so sort them
+    return Array.from(node.map.entries())
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([, member]) => member);
+}
+
+function readCounter(node: Node): number | undefined {
+    if (node.map.size === 0) {
+        return undefined; // Not yet written
+    }
+    let sum = 0;
+    for (const value of node.map.values()) {
+        if (typeof value === 'number') {
+            sum += value;
+        }
+    }
+    return sum;
+}
+
+function readArray(
+    doc: Y.Doc,
+    array: Y.Array<unknown>,
+    element: z.ZodType,
+    loose: boolean,
+): unknown[] {
+    return array.map((item) => {
+        if (!(item instanceof Y.Map)) {
+            return item; // Stored as-is
+        }
+        const node = { map: item };
+        if (fieldKind(element) === 'union') {
+            return readUnion(
+                doc,
+                node,
+                element as z.ZodDiscriminatedUnion,
+                loose,
+            );
+        }
+        return loose
+            ? readFields(doc, node, element as z.ZodObject, true)
+            : readObject(doc, node, element as z.ZodObject);
+    });
+}
+
+function findVariant(
+    type: z.ZodDiscriminatedUnion,
+    discriminatorValue: unknown,
+): z.ZodObject | undefined {
+    const discriminator = type.def.discriminator;
+    const options = type.options as z.ZodObject[];
+
     // Find the matching variant by checking each option's shape
     // TODO optimize? This is probably inefficient for LARGE numbers of cases
-    const variantSchema = options.find((opt) => {
+    return options.find((opt) => {
         const literalType = opt.shape[discriminator];
         if (literalType instanceof z.ZodLiteral) {
             return literalType.value === discriminatorValue;
         }
         return false;
     });
-
-    if (!variantSchema) {
-        return null; // Invalid discriminator value
-    }
-
-    // Read the variant as an object
-    return readObject(doc, key, variantSchema);
 }
 
-export type DeepPartial<T> = T extends object
-    ? {
-          [P in keyof T]?: DeepPartial<T[P]>;
-      }
-    : T;
+export type DeepPartial<T> = T extends readonly (infer E)[]
+    ? T | ArrayOperation<E> | SetOperation<E>
+    : T extends ReadonlySet<infer E>
+      ? T | SetOperation<E>
+      : T extends object
+        ? {
+              // Entries of records and optional fields can be deleted
+              [P in keyof T]?:
+                  | DeepPartial<T[P]>
+                  | (string extends keyof T
+                        ? Unset
+                        : undefined extends T[P]
+                          ? Unset
+                          : never);
+          }
+        : T;
 
 export function writeData<T extends TableBase>(
     doc: Y.Doc,
@@ -124,136 +581,913 @@ export function writeData<T extends TableBase>(
     value: T | DeepPartial<T>,
     upsert: boolean,
 ) {
+    const fields = withoutKey(table, value as Record<string, unknown>);
     doc.transact(() => {
-        writeObject(
-            doc,
-            `${table.name}.${key}`,
-            value as Record<string, unknown>,
-            table.type,
-        );
+        if (!upsert) {
+            migrateOutdated(doc, table, key);
+        }
+
+        // In 'nested' layout, rows that have not been upserted do not exist
+        const node = rowNode(doc, table, key, upsert);
+        if (node) {
+            writeObject(doc, node, fields, table.type, upsert);
+        }
         if (upsert) {
-            doc.getMap(table.name).set(key, true);
+            setRowVersion(doc, table, key);
         }
     });
 }
 
-function writeObject(
+function withoutKey<T extends TableBase>(
+    table: Table<T>,
+    data: Record<string, unknown>,
+): Record<string, unknown> {
+    // Primary key is not stored in row, it is in the table's index
+    const fields = { ...data };
+    for (const field of table.primaryKey) {
+        delete fields[field];
+    }
+    return fields;
+}
+
+/**
+ * Increments a counter field of a row. If the field is not a counter, it is
+ * incremented with last-writer-wins semantics.
+ */
+export function incrementData<T extends TableBase>(
     doc: Y.Doc,
+    table: Table<T>,
+    key: string,
+    field: string,
+    delta: number,
+) {
+    doc.transact(() => {
+        migrateOutdated(doc, table, key);
+        const node = rowNode(doc, table, key, false);
+        if (!node) {
+            return; // In 'nested' layout, rows that have not been upserted do not exist
+        }
+
+        // Each client only modifies its own contribution, so concurrent increments are never lost
+        const t = table.type.shape[field];
+        const counter =
+            t && fieldKind(t) === 'counter'
+                ? (childNode(doc, node, field, true) as Node)
+                : null;
+        const target = counter?.map ?? node.map;
+        const id = counter ? String(doc.clientID) : field;
+        const current = target.get(id);
+        target.set(id, (typeof current === 'number' ? current : 0) + delta);
+    });
+}
+
+function migrateOutdated<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
     key: string,
-    data: Record<string, unknown>,
-    type: z.ZodObject,
 ) {
-    if ('key' in data) {
-        delete data.key;
+    if ((rowVersion(doc, table, key) ?? table.version) < table.version) {
+        // Partial updates to rows with older schema would be mixed with old data by migrations
+        // To avoid that, upgrade the row first, but leave old fields for peers that still read them
+        migrateData(doc, table, key, false);
     }
+}
+
+/**
+ * Rewrites a row that was written with an older schema using the current
+ * schema.
+ * @param prune Whether to delete fields that are no longer in the schema.
+ * @returns Whether the row could be migrated.
+ */
+export function migrateData<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    key: string,
+    prune = true,
+): boolean {
+    const data = readDataPresent(doc, table, key);
+    const node = rowNode(doc, table, key, false);
+    if (!data || !node) {
+        return false; // Not valid even after migrations
+    }
+    const fields = withoutKey(table, data as Record<string, unknown>);
+    doc.transact(() => {
+        for (const field of prune ? Array.from(node.map.keys()) : []) {
+            if (!(field in table.type.shape) && field !== VERSION_FIELD) {
+                node.map.delete(field);
+            }
+        }
+        writeObject(doc, node, fields, table.type, true);
+        setRowVersion(doc, table, key);
+    });
+    return true;
+}
 
-    const row = doc.getMap(key);
+/**
+ * Writes fields of an object. Fields that are not given are not changed.
+ * @param replace If true, data is the object's full new value rather than
+ * changes to it. Entries of records that are not in it are deleted.
+ */
+function writeObject(
+    doc: Y.Doc,
+    node: Node,
+    data: Record<string, unknown>,
+    type: z.ZodObject,
+    replace: boolean,
+) {
     for (const [field, t] of Object.entries(type.shape)) {
         const value = data[field];
         if (value === undefined) {
             continue; // Not specified, don't update existing value
         }
+        writeField(doc, node, field, t, value, replace);
+    }
+}
 
-        // Figure out where the field's value is actually stored
-        const meta = z.globalRegistry.get(t);
-        const syncAs = meta?.syncAs;
-        const shallow = meta?.shallow === true;
+function writeField(
+    doc: Y.Doc,
+    node: Node,
+    field: string,
+    t: z.ZodType,
+    value: unknown,
+    replace: boolean,
+) {
+    if (isUnset(value)) {
+        deleteField(doc, node, field, t);
+        return;
+    }
 
-        // Auto-infer syncAs: Y.Map for nested z.object() and discriminatedUnion unless shallow: true
-        const isNestedObject = t.type === 'object';
-        const isUnion = t instanceof z.ZodDiscriminatedUnion;
-        const shouldSyncAsMap =
-            (syncAs === Y.Map || (!syncAs && (isNestedObject || isUnion))) &&
-            !shallow;
+    // Figure out where the field's value is actually stored
+    const kind = fieldKind(t);
+    const legacy = node.map.get(field);
+    if (
+        (kind === 'union' || kind === 'object' || kind === 'record') &&
+        isPlainObject(legacy)
+    ) {
+        // Written as plain value by an older version; it would hide the Y.Map if it is empty
+        node.map.delete(field);
+        if (!replace) {
+            // Partial writes change only parts of the old value, so move rest of it to the Y.Map
+            writeField(doc, node, field, t, legacy, true);
+        }
+    }
+    if (kind === 'union') {
+        // Discriminated union stored in separate Y.Map
+        writeUnion(
+            doc,
+            childNode(doc, node, field, true) as Node,
+            value as Record<string, unknown>,
+            unwrap(t) as z.ZodDiscriminatedUnion,
+            replace,
+        );
+    } else if (kind === 'object') {
+        // Nested object stored in separate Y.Map - merge changes recursively
+        const child = childNode(doc, node, field, true) as Node;
+        let data = value as Record<string, unknown>;
+        if (!replace && child.map.size === 0) {
+            // Object relies on its default value; changing a part of it should not lose the rest
+            const fallback = t.safeParse(undefined);
+            if (fallback.success && isPlainObject(fallback.data)) {
+                data = { ...fallback.data, ...data };
+            }
+        }
+        writeObject(doc, child, data, unwrap(t) as z.ZodObject, replace);
+    } else if (kind === 'record') {
+        // Record stored in separate Y.Map - merge changes entry by entry
+        writeRecord(
+            doc,
+            childNode(doc, node, field, true) as Node,
+            value as Record<string, unknown>,
+            unwrap(t) as z.ZodRecord,
+            replace,
+        );
+    } else if (kind === 'array') {
+        // Y.Array - apply operations or replace its content
+        const array = rawType(doc, node, field, Y.Array, value);
+        writeArray(
+            doc,
+            array as Y.Array<unknown>,
+            value,
+            (unwrap(t) as z.ZodArray).element as z.ZodType,
+        );
+    } else if (kind === 'set') {
+        // Set stored in separate Y.Map - add and remove members
+        writeSet(childNode(doc, node, field, true) as Node, value);
+    } else if (kind === 'counter') {
+        // Counter - adjust our contribution so that the total matches the new value
+        const counter = childNode(doc, node, field, true) as Node;
+        const own = counter.map.get(String(doc.clientID));
+        const total = readCounter(counter) ?? 0;
+        counter.map.set(
+            String(doc.clientID),
+            (value as number) - (total - (typeof own === 'number' ? own : 0)),
+        );
+    } else if (kind === 'text') {
+        // Y.Text - edit it to match the new value
+        const text = rawType(doc, node, field, Y.Text, value);
+        writeText(text as Y.Text, value as string);
+    } else if (kind === 'raw') {
+        // Raw Yjs type - already a replicated type, but in 'nested' layout we might need to create it
+        rawType(doc, node, field, syncAsOf(t), value);
+    } else if (isArrayOperation(value) || isSetOperation(value)) {
+        // Array that is not synced as Y.Array - modify a copy and write it with last-writer-wins semantics
+        const current = node.map.get(field);
+        const array = Array.isArray(current) ? [...current] : [];
+        const mutable: MutableArray<unknown> = {
+            get length() {
+                return array.length;
+            },
+            get: (index) => array[index],
+            insert: (index, items) => array.splice(index, 0, ...items),
+            delete: (index, count) => array.splice(index, count),
+            update: (index, item) => {
+                const current = array[index];
+                array[index] =
+                    isPlainObject(current) && isPlainObject(item)
+                        ? { ...current, ...item }
+                        : item;
+            },
+        };
+        if (isSetOperation(value)) {
+            applySetOperation(mutable, value);
+        } else {
+            applyArrayOperation(mutable, value);
+        }
+        node.map.set(field, array);
+    } else {
+        // Write non-synced data as-it-is, with last-writer-wins semantics
+        node.map.set(field, value);
+    }
+}
 
-        if (shouldSyncAsMap && isUnion) {
-            // Discriminated union stored in separate Y.Map
+function deleteField(doc: Y.Doc, node: Node, field: string, t: z.ZodType) {
+    clearField(doc, node, field, t);
+    node.map.delete(field);
+}
+
+function writeRecord(
+    doc: Y.Doc,
+    node: Node,
+    data: Record<string, unknown>,
+    type: z.ZodRecord,
+    replace: boolean,
+) {
+    const valueType = type.valueType as z.ZodType;
+    if (replace) {
+        for (const entry of Array.from(node.map.keys())) {
+            if (data[entry] === undefined) {
+                deleteField(doc, node, entry, valueType);
+            }
+        }
+    }
+
+    // In 'root' layout, values of most entries are stored in other root-level types
+    // Mark them as present, so that we can find them later
+    const marker = node.root !== undefined && fieldKind(valueType) !== 'value';
+    for (const [entry, value] of Object.entries(data)) {
+        if (value === undefined) {
+            continue;
+        }
+        writeField(doc, node, entry, valueType, value, replace);
+        if (marker && !isUnset(value) && !node.map.has(entry)) {
+            node.map.set(entry, true);
+        }
+    }
+}
+
+function writeArray(
+    doc: Y.Doc,
+    array: Y.Array<unknown>,
+    value: unknown,
+    element: z.ZodType,
+) {
+    const kind = fieldKind(element);
+    const write = (map: Y.Map<unknown>, item: unknown, replace: boolean) => {
+        if (kind === 'union') {
             writeUnion(
                 doc,
-                `${key}.${field}`,
-                data[field] as Record<string, unknown>,
-                t,
+                { map },
+                item as Record<string, unknown>,
+                element as z.ZodDiscriminatedUnion,
+                replace,
             );
-        } else if (shouldSyncAsMap && isNestedObject) {
-            // Nested object stored in separate Y.Map - merge changes recursively
-            writeObject(doc, `${key}.${field}`, data[field] as any, t); // TODO type checks?
-        } else if (syncAs) {
-            // Raw Yjs type - do not write, it is already a replicated type
         } else {
-            // Write non-synced data as-it-is, with last-writer-wins semantics
-            row.set(field, value);
+            writeObject(
+                doc,
+                { map },
+                item as Record<string, unknown>,
+                element as z.ZodObject,
+                replace,
+            );
+        }
+    };
+    const insert = (index: number, items: unknown[]) => {
+        if (kind !== 'object' && kind !== 'union') {
+            array.insert(index, items);
+            return;
         }
+
+        // Objects are stored as Y.Maps, so that their fields can be merged
+        // Add them to document before writing, so that nested types can be created
+        // Maps that we already have (e.g. moved items) are added as-is
+        const maps = items.map((item) =>
+            item instanceof Y.Map ? item : new Y.Map(),
+        );
+        array.insert(index, maps);
+        maps.forEach((map, i) => {
+            if (map !== items[i]) {
+                write(map, items[i], true);
+            }
+        });
+    };
+
+    const mutable: MutableArray<unknown> = {
+        get length() {
+            return array.length;
+        },
+        get: (index) => array.get(index),
+        insert,
+        delete: (index, count) => array.delete(index, count),
+        update: (index, item) => {
+            const current = array.get(index);
+            if (current instanceof Y.Map) {
+                write(current, item, false); // Merge changes to fields
+            } else {
+                array.delete(index, 1);
+                insert(index, [item]);
+            }
+        },
+    };
+    if (isArrayOperation(value)) {
+        applyArrayOperation(mutable, value, (item) =>
+            item instanceof Y.AbstractType ? item.clone() : item,
+        );
+    } else if (isSetOperation(value)) {
+        applySetOperation(mutable, value);
+    } else {
+        // New value for the whole array
+        array.delete(0, array.length);
+        insert(0, value as unknown[]);
+    }
+}
+
+function writeSet(node: Node, value: unknown) {
+    if (isSetOperation(value)) {
+        for (const member of value.members) {
+            if (value.type === 'add') {
+                // Set even if already present, so that concurrent removals don't win
+                node.map.set(JSON.stringify(member), member);
+            } else {
+                node.map.delete(JSON.stringify(member));
+            }
+        }
+        return;
+    }
+
+    // New value for the whole set - only add and remove members that changed
+    const members = new Map<string, unknown>();
+    for (const member of value as Iterable<unknown>) {
+        members.set(JSON.stringify(member), member);
     }
+    for (const id of Array.from(node.map.keys())) {
+        if (!members.has(id)) {
+            node.map.delete(id);
+        }
+    }
+    for (const [id, member] of members) {
+        if (!node.map.has(id)) {
+            node.map.set(id, member);
+        }
+    }
+}
+
+/**
+ * Changes content of a Y.Text to the given string. Only the part that
+ * differs is replaced, so that concurrent edits to other parts of the text
+ * are merged.
+ */
+function writeText(text: Y.Text, value: string) {
+    const current = text.toString();
+
+    // Find common prefix and suffix, without splitting surrogate pairs
+    let start = 0;
+    const maxLength = Math.min(current.length, value.length);
+    while (start < maxLength && current[start] === value[start]) {
+        start++;
+    }
+    if (start > 0 && isHighSurrogate(current.charCodeAt(start - 1))) {
+        start--;
+    }
+    let end = 0;
+    while (
+        end < maxLength - start &&
+        current[current.length - 1 - end] === value[value.length - 1 - end]
+    ) {
+        end++;
+    }
+    if (
+        end > 0 &&
+        isHighSurrogate(current.charCodeAt(current.length - 1 - end))
+    ) {
+        end--;
+    }
+
+    const deleted = current.length - start - end;
+    if (deleted > 0) {
+        text.delete(start, deleted);
+    }
+    const inserted = value.slice(start, value.length - end);
+    if (inserted.length > 0) {
+        text.insert(start, inserted);
+    }
+}
+
+function isHighSurrogate(code: number): boolean {
+    return code >= 0xd800 && code <= 0xdbff;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        !Array.isArray(value) &&
+        !(value instanceof Y.AbstractType)
+    );
 }
 
+/**
+ * Writes a discriminated union.
+ *
+ * When the variant is switched, fields that do not belong to the new variant
+ * are deleted. If peers concurrently switch to different variants, the
+ * discriminator value that Yjs picks wins, and fields written by other
+ * switches are left behind until the variant is switched again. Updates that
+ * do not switch the variant do not rewrite the discriminator, so they never
+ * override concurrent switches.
+ */
 function writeUnion(
     doc: Y.Doc,
-    key: string,
+    node: Node,
     data: Record<string, unknown>,
     type: z.ZodDiscriminatedUnion,
+    replace: boolean,
 ) {
-    const discriminator = type.def.discriminator as string;
-    const options = type.options as z.ZodObject[];
+    const discriminator = type.def.discriminator;
+    const current = node.map.get(discriminator);
+    const discriminatorValue = data[discriminator] ?? current;
+    const variantSchema = findVariant(type, discriminatorValue);
+    if (!variantSchema) {
+        return; // Unknown variant, or not yet replicated
+    }
 
-    const discriminatorValue = data[discriminator];
+    if (discriminatorValue === current) {
+        // Same variant, write everything except the discriminator
+        const { [discriminator]: _discriminator, ...fields } = data;
+        writeObject(doc, node, fields, variantSchema, replace);
+    } else {
+        // Switch variant; delete data of other variants, so that it won't reappear if we switch back
+        if (node.root !== undefined) {
+            for (const option of type.options as z.ZodObject[]) {
+                for (const [field, t] of Object.entries(option.shape)) {
+                    if (!(field in variantSchema.shape)) {
+                        clearField(doc, node, field, t);
+                    }
+                }
+            }
+        }
+        for (const field of Array.from(node.map.keys())) {
+            if (!(field in variantSchema.shape)) {
+                node.map.delete(field);
+            }
+        }
+        writeObject(doc, node, data, variantSchema, replace);
+    }
+}
 
-    // Find the matching variant by checking each option's shape
-    // TODO optimize? This is probably inefficient for LARGE numbers of cases
-    const variantSchema = options.find((opt) => {
-        const literalType = opt.shape[discriminator];
-        if (literalType instanceof z.ZodLiteral) {
-            return literalType.value === discriminatorValue;
+/**
+ * Clears all data stored for a row: its fields, nested objects and raw Yjs
+ * shared types. Root-level Yjs types cannot be deleted, but once their
+ * content has been deleted, Yjs can garbage-collect it.
+ */
+export function clearData<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    key: string,
+) {
+    const node = rowNode(doc, table, key, false);
+    if (node) {
+        clearObject(doc, node, table.type);
+    }
+}
+
+function clearObject(doc: Y.Doc, node: Node, type: z.ZodObject) {
+    if (node.root !== undefined) {
+        // Nested data lives in other root-level types, clear them first
+        for (const [field, t] of Object.entries(type.shape)) {
+            clearField(doc, node, field, t);
         }
-        return false;
-    });
+    } // else: nested data is deleted along with the map
 
-    if (variantSchema) {
-        // Write using the variant's object schema
-        writeObject(doc, key, data, variantSchema);
+    // Also delete fields that are not in schema (e.g. written by older clients)
+    node.map.clear();
+}
+
+/**
+ * Clears nested data of a field that is stored outside of its parent's map.
+ * This is only needed in 'root' layout.
+ */
+function clearField(doc: Y.Doc, node: Node, field: string, t: z.ZodType) {
+    if (node.root === undefined) {
+        return; // Nested data is deleted along with the field
+    }
+    const kind = fieldKind(t);
+    if (kind === 'union') {
+        // We don't know which variants have been stored, so clear them all
+        const child = childNode(doc, node, field, false) as Node;
+        for (const option of (unwrap(t) as z.ZodDiscriminatedUnion)
+            .options as z.ZodObject[]) {
+            clearObject(doc, child, option);
+        }
+    } else if (kind === 'object') {
+        const child = childNode(doc, node, field, false) as Node;
+        clearObject(doc, child, unwrap(t) as z.ZodObject);
+    } else if (kind === 'set' || kind === 'counter') {
+        (childNode(doc, node, field, false) as Node).map.clear();
+    } else if (kind === 'record') {
+        const child = childNode(doc, node, field, false) as Node;
+        const valueType = (unwrap(t) as z.ZodRecord).valueType as z.ZodType;
+        for (const entry of child.map.keys()) {
+            clearField(doc, child, entry, valueType);
+        }
+        child.map.clear();
+    } else if (kind === 'array' || kind === 'text' || kind === 'raw') {
+        const raw = rawType(
+            doc,
+            node,
+            field,
+            kind === 'array' ? Y.Array : syncAsOf(t),
+        );
+        if (raw) {
+            clearType(raw);
+        }
+    }
+}
+
+function clearType(type: Y.AbstractType<unknown>) {
+    if (type instanceof Y.Map) {
+        type.clear();
+    } else if (
+        type instanceof Y.Array ||
+        type instanceof Y.Text ||
+        type instanceof Y.XmlFragment
+    ) {
+        type.delete(0, type.length);
     }
 }
 
 /**
- * Determines if a Zod type should be synced as a separate Y.Map.
- * Returns true for z.object(), z.discriminatedUnion() fields (unless marked shallow),
- * and explicit syncAs: Y.Map.
+ * Gets a view of a row that filters can be evaluated against. Values are
+ * the same that reading the row would give, including default values of
+ * fields that have never been written.
+ *
+ * In 'nested' layout, rows that do not exist have no map. For them, an empty
+ * map that is not part of the document is used.
  */
-export function shouldSyncAsYMap(t: z.ZodType): boolean {
-    const meta = z.globalRegistry.get(t);
-    const syncAs = meta?.syncAs;
-    const shallow = meta?.shallow === true;
-    const isNestedObject = t instanceof z.ZodObject;
-    const isUnion = t instanceof z.ZodDiscriminatedUnion;
-    return (
-        ((syncAs === Y.Map && isNestedObject) ||
-            (!syncAs && (isNestedObject || isUnion))) &&
-        !shallow
+export function filterRow<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    key: string,
+): FilterRow<T> {
+    const node = rowNode(doc, table, key, false);
+    // Migrations work on whole rows, so rows written with older schemas are read whole
+    let migrated: T | null | undefined =
+        (rowVersion(doc, table, key) ?? table.version) < table.version
+            ? undefined
+            : null;
+    const get = (path: string) => {
+        const [field, ...rest] = path.split('.') as [string, ...string[]];
+        if ((table.primaryKey as readonly string[]).includes(field)) {
+            return walkValue(decodeKey(table, key)[field], rest);
+        }
+        if (migrated === undefined) {
+            migrated = readDataPresent(doc, table, key);
+        }
+        if (migrated) {
+            return walkValue(migrated[field as keyof T], rest);
+        } // else: incompletely replicated, so read what is there
+        return node ? readPath(doc, node, table.type, field, rest) : undefined;
+    };
+    return {
+        get: (path) => get(path) as PathValue<T, typeof path>,
+        variant: (path) => {
+            // Read only the discriminator, not the whole union
+            let type: z.ZodType | undefined = table.type;
+            for (const segment of path.split('.')) {
+                type = type && childSchema(type, segment);
+            }
+            const union = type && unwrap(type);
+            return union instanceof z.ZodDiscriminatedUnion
+                ? get(`${path}.${union.def.discriminator}`)
+                : undefined;
+        },
+        map: node?.map ?? new Y.Map(),
+    };
+}
+
+/**
+ * Reads value of a field, or a field nested inside it. Fields of nested
+ * objects and unions are read directly from their Y.Maps, without reading
+ * the rest of the object.
+ * @param field Name of the field.
+ * @param rest Path inside the field's value.
+ */
+function readPath(
+    doc: Y.Doc,
+    node: Node,
+    type: z.ZodObject,
+    field: string,
+    rest: string[],
+): unknown {
+    const t = type.shape[field];
+    if (!t) {
+        return walkValue(node.map.get(field), rest); // Not in schema
+    } else if (rest.length === 0) {
+        return withDefaults(t, readField(doc, node, field, t, false));
+    }
+
+    const kind = fieldKind(t);
+    const child =
+        kind === 'object' || kind === 'union'
+            ? childNode(doc, node, field, false)
+            : null;
+    if (child && child.map.size !== 0) {
+        const inner = unwrap(t);
+        const childType =
+            inner instanceof z.ZodDiscriminatedUnion
+                ? findVariant(inner, child.map.get(inner.def.discriminator))
+                : (inner as z.ZodObject);
+        const [next, ...remaining] = rest as [string, ...string[]];
+        return childType
+            ? readPath(doc, child, childType, next, remaining)
+            : undefined;
+    }
+    // Records, shallow objects, etc. are read whole
+    return walkValue(
+        withDefaults(t, readField(doc, node, field, t, false)),
+        rest,
     );
 }
 
 /**
- * Determines if a Zod type is a raw Yjs shared type (not a converted z.object()).
+ * Applies default values of a field to its value, if it is missing or an
+ * object that might be missing some fields.
  */
-export function isRawYjsType(t: z.ZodType): boolean {
-    const meta = z.globalRegistry.get(t);
-    const syncAs = meta?.syncAs;
-    const isNestedObject = t instanceof z.ZodObject;
-    return syncAs != null && !(syncAs === Y.Map && isNestedObject);
+function withDefaults(t: z.ZodType, value: unknown): unknown {
+    if (value !== undefined && !isPlainObject(value)) {
+        return value;
+    }
+    const parsed = t.safeParse(value);
+    return parsed.success ? parsed.data : value;
+}
+
+function walkValue(value: unknown, path: string[]): unknown {
+    for (const segment of path) {
+        value = isPlainObject(value) ? value[segment] : undefined;
+    }
+    return value;
+}
+
+/**
+ * Gets the schema version that a row was written with.
+ * @returns The version, or null if the row does not exist.
+ */
+export function rowVersion<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    key: string,
+): number | null {
+    const row = doc.getMap(table.name).get(key);
+    if (row === undefined) {
+        return null;
+    }
+    // Rows written before versioning (or with version 1) have no version number
+    const version = row instanceof Y.Map ? row.get(VERSION_FIELD) : row;
+    return typeof version === 'number' ? version : 1;
 }
 
-export function getRow<T extends TableBase>(
+/**
+ * Marks a row as written with the table's schema version. Rows that newer
+ * peers have already upgraded keep their version, so that migrations are
+ * not applied twice.
+ */
+function setRowVersion<T extends TableBase>(
     doc: Y.Doc,
     table: Table<T>,
     key: string,
-): Y.Map<unknown> {
-    return doc.getMap(`${table.name}.${key}`);
+) {
+    const version = rowVersion(doc, table, key);
+    if (version !== null && version >= table.version) {
+        return;
+    }
+    if (table.layout === 'nested') {
+        rowNode(doc, table, key, false)?.map.set(VERSION_FIELD, table.version);
+    } else {
+        // In 'root' layout, version is stored in table's index
+        doc.getMap(table.name).set(
+            key,
+            table.version === 1 ? true : table.version,
+        );
+    }
 }
 
-export function allKeys<T extends TableBase>(
+export function isPresent<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    key: string,
+): boolean {
+    const rows = doc.getMap(table.name);
+    return table.layout === 'nested'
+        ? rows.get(key) instanceof Y.Map
+        : rows.has(key);
+}
+
+export function* allKeys<T extends TableBase>(
     doc: Y.Doc,
     table: Table<T>,
 ): IterableIterator<string> {
-    return doc.getMap(table.name).keys();
+    const rows = doc.getMap(table.name);
+    if (table.layout === 'nested') {
+        for (const [key, row] of rows.entries()) {
+            // Skip entries left behind by 'root' layout
+            if (row instanceof Y.Map) {
+                yield key;
+            }
+        }
+    } else {
+        yield* rows.keys();
+    }
+}
+
+/**
+ * Describes a completed transaction for watchers.
+ * @param doc Database that the transaction was made in.
+ * @param transaction A Yjs transaction.
+ */
+export function changeContext(
+    doc: Y.Doc,
+    transaction: Y.Transaction,
+): ChangeContext {
+    const clients = new Set<number>();
+    for (const [client, clock] of transaction.afterState) {
+        if (transaction.beforeState.get(client) !== clock) {
+            clients.add(client);
+        }
+    }
+    if (transaction.local) {
+        clients.add(doc.clientID); // Removals do not advance our clock
+    }
+    return { origin: transaction.origin, local: transaction.local, clients };
+}
+
+/**
+ * Finds keys of rows that a transaction may have changed. This may include
+ * keys of rows that do not exist.
+ * @param doc Database to operate on.
+ * @param table Table to look for changes in.
+ * @param transaction A Yjs transaction.
+ */
+export function changedKeys<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    transaction: Y.Transaction,
+): Set<string> {
+    const keys = new Set<string>();
+    const rows = doc.getMap(table.name) as unknown as AnyYType;
+    const prefix = `${table.name}.`;
+    for (const [type, subs] of transaction.changed) {
+        // Find root-level type that contains the changed type
+        let root = type;
+        let sub: string | null = null;
+        while (root._item) {
+            sub = root._item.parentSub;
+            root = root._item.parent as AnyYType;
+        }
+
+        if (root === rows) {
+            // Rows were added or removed, or content of a 'nested' layout row changed
+            if (type === rows) {
+                for (const key of subs) {
+                    if (key !== null) {
+                        keys.add(key);
+                    }
+                }
+            } else if (sub !== null) {
+                keys.add(sub);
+            }
+        } else if (table.layout === 'root') {
+            // Content of a row changed, in row's map or a map of nested object
+            const name = rootName(doc, root);
+            if (name?.startsWith(prefix)) {
+                // Keys may contain dots, so we can't know where key ends and field names start
+                const path = name.slice(prefix.length);
+                for (let i = path.indexOf('.'); i !== -1; ) {
+                    keys.add(path.slice(0, i));
+                    i = path.indexOf('.', i + 1);
+                }
+                keys.add(path);
+            }
+        }
+    }
+    return keys;
+}
+
+/**
+ * Tracks rows that change in a document, for in-memory data (such as
+ * indexes) that is updated lazily.
+ */
+export interface ChangeTracker {
+    /**
+     * Takes keys of rows of a table that may have changed since the previous
+     * call for the table, including changes of a transaction that is in
+     * progress. The first call returns keys of all rows.
+     */
+    take(table: Table<TableBase>): Set<string>;
+
+    /**
+     * Stops tracking changes. This is done automatically when the document
+     * is destroyed.
+     */
+    stop(): void;
+}
+
+export function trackChanges(doc: Y.Doc): ChangeTracker {
+    const tracked = new Map<Table<TableBase>, Set<string>>();
+    let current: Y.Transaction | null = null;
+
+    const begin = (transaction: Y.Transaction) => {
+        current = transaction;
+    };
+    // Collect changes before observers are called, since they might run queries
+    const end = (transaction: Y.Transaction) => {
+        current = null;
+        for (const [table, keys] of tracked) {
+            for (const key of changedKeys(doc, table, transaction)) {
+                keys.add(key);
+            }
+        }
+    };
+    const stop = () => {
+        doc.off('beforeTransaction', begin);
+        doc.off('beforeObserverCalls', end);
+        doc.off('destroy', stop);
+    };
+    doc.on('beforeTransaction', begin);
+    doc.on('beforeObserverCalls', end);
+    doc.on('destroy', stop);
+
+    return {
+        take: (table) => {
+            const keys = tracked.get(table) ?? new Set(allKeys(doc, table));
+            if (current) {
+                // Changes of transaction that is in progress have not been collected yet
+                for (const key of changedKeys(doc, table, current)) {
+                    keys.add(key);
+                }
+            }
+            tracked.set(table, new Set());
+            return keys;
+        },
+        stop,
+    };
+}
+
+interface RootNames {
+    names: Map<AnyYType, string>;
+    entries: MapIterator<[string, AnyYType]>;
+}
+
+const rootNames = new WeakMap<Y.Doc, RootNames>();
+
+/**
+ * Finds name of a root-level type.
+ */
+function rootName(doc: Y.Doc, type: AnyYType): string | undefined {
+    let cache = rootNames.get(doc);
+    if (
+        !cache ||
+        (!cache.names.has(type) && cache.names.size >= doc.share.size)
+    ) {
+        // When a type received from other peers is first used locally, Yjs replaces it with a new one
+        cache = { names: new Map(), entries: doc.share.entries() };
+        rootNames.set(doc, cache);
+    }
+    // Root-level types are never removed, so only look at types added since last time
+    // Iterators of Map see entries added after their creation, unless they have already finished
+    while (!cache.names.has(type) && cache.names.size < doc.share.size) {
+        const [name, root] = cache.entries.next().value as [string, AnyYType];
+        cache.names.set(root, name);
+    }
+    return cache.names.get(type);
 }
 
 export function observeKeys<T extends TableBase>(
@@ -261,11 +1495,26 @@ export function observeKeys<T extends TableBase>(
     table: Table<T>,
     callback: (added: string[], removed: string[]) => void,
 ) {
+    const nested = table.layout === 'nested';
     const handler = (event: Y.YMapEvent<unknown>) => {
         const added: string[] = [];
         const removed: string[] = [];
         event.changes.keys.forEach((change, key) => {
-            if (change.action === 'add') {
+            if (nested) {
+                // In 'nested' layout, rows may also be replaced by concurrent upserts
+                if (
+                    change.action !== 'add' &&
+                    change.oldValue instanceof Y.Map
+                ) {
+                    removed.push(key);
+                }
+                if (
+                    change.action !== 'delete' &&
+                    event.target.get(key) instanceof Y.Map
+                ) {
+                    added.push(key);
+                }
+            } else if (change.action === 'add') {
                 added.push(key);
             } else if (change.action === 'delete') {
                 removed.push(key);
@@ -278,3 +1527,194 @@ export function observeKeys<T extends TableBase>(
     doc.getMap(table.name).observe(handler);
     return () => doc.getMap(table.name).unobserve(handler);
 }
+
+/**
+ * Observes changes in content of a row.
+ * @param doc Database to operate on.
+ * @param table Table that contains the row.
+ * @param key Row key.
+ * @param level Change detection level. 'content' observes the row and
+ * nested objects, while 'deep' also observes raw Yjs types. 'keys' observes
+ * nothing at all.
+ * @param callback Called when the row's content changes.
+ * @returns Function that, when called, stops observing the row.
+ */
+export function observeRow<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    key: string,
+    level: WatchLevel,
+    callback: () => void,
+): () => void {
+    const node = rowNode(doc, table, key, false);
+    if (level === 'keys' || !node) {
+        return () => {}; // Nothing to observe (yet)
+    }
+    const deep = level === 'deep';
+
+    if (node.root === undefined) {
+        // Everything is nested inside the row's map, so observe it deeply
+        // For 'content' level, ignore changes inside raw Yjs types
+        const handler = (events: Y.YEvent<Y.AbstractType<unknown>>[]) => {
+            if (deep || events.some((e) => !isRawPath(table.type, e.path))) {
+                callback();
+            }
+        };
+        node.map.observeDeep(handler);
+        return () => node.map.unobserveDeep(handler);
+    }
+
+    // In 'root' layout, nested objects and raw types need to be observed separately
+    const observeMap = (map: Y.Map<unknown>) => {
+        if (deep) {
+            map.observeDeep(callback);
+            return () => map.unobserveDeep(callback);
+        }
+        map.observe(callback);
+        return () => map.unobserve(callback);
+    };
+    const observeNode = (
+        node: Node,
+        type: z.ZodObject | z.ZodDiscriminatedUnion,
+    ) => {
+        const unobservers = [observeMap(node.map)];
+
+        // Also observe nested Y.Maps based on schema
+        // For 'content': observe z.object() fields (converted Y.Maps)
+        // For 'deep': also observe raw Yjs types
+        const variants =
+            type instanceof z.ZodDiscriminatedUnion
+                ? (type.options as z.ZodObject[])
+                : [type];
+        for (const variant of variants) {
+            for (const [field, t] of Object.entries(variant.shape)) {
+                unobservers.push(observeField(node, field, t));
+            }
+        }
+        return () => {
+            for (const unobserve of unobservers) {
+                unobserve();
+            }
+        };
+    };
+    const observeRecord = (node: Node, type: z.ZodRecord) => {
+        const unobserve = observeMap(node.map);
+        const valueType = type.valueType as z.ZodType;
+        if (fieldKind(valueType) === 'value') {
+            return unobserve; // Entries are stored in the map itself
+        }
+
+        // Entries come and go, so start and stop observing them as needed
+        const entries = new Map<string, () => void>();
+        const updateEntries = () => {
+            for (const entry of node.map.keys()) {
+                if (!entries.has(entry)) {
+                    entries.set(entry, observeField(node, entry, valueType));
+                }
+            }
+            for (const [entry, unobserveEntry] of entries) {
+                if (!node.map.has(entry)) {
+                    unobserveEntry();
+                    entries.delete(entry);
+                }
+            }
+        };
+        updateEntries();
+        node.map.observe(updateEntries);
+        return () => {
+            unobserve();
+            node.map.unobserve(updateEntries);
+            for (const unobserveEntry of entries.values()) {
+                unobserveEntry();
+            }
+        };
+    };
+    const observeField = (
+        node: Node,
+        field: string,
+        t: z.ZodType,
+    ): (() => void) => {
+        const kind = fieldKind(t);
+        if (kind === 'object' || kind === 'union') {
+            return observeNode(
+                childNode(doc, node, field, false) as Node,
+                unwrap(t) as z.ZodObject | z.ZodDiscriminatedUnion,
+            );
+        } else if (kind === 'record') {
+            return observeRecord(
+                childNode(doc, node, field, false) as Node,
+                unwrap(t) as z.ZodRecord,
+            );
+        } else if (kind === 'set' || kind === 'counter') {
+            return observeMap((childNode(doc, node, field, false) as Node).map);
+        } else if (kind === 'array') {
+            // Content of arrays is content of row, but raw types inside them are not
+            const array = rawType(doc, node, field, Y.Array);
+            const handler = (events: Y.YEvent<Y.AbstractType<unknown>>[]) => {
+                if (deep || events.some((e) => !isRawPath(t, e.path))) {
+                    callback();
+                }
+            };
+            array?.observeDeep(handler);
+            return () => array?.unobserveDeep(handler);
+        } else if (kind === 'text' || (kind === 'raw' && deep)) {
+            // Strings in Y.Text are content of row, other raw types are not
+            const raw = rawType(doc, node, field, syncAsOf(t));
+            raw?.observeDeep(callback);
+            return () => raw?.unobserveDeep(callback);
+        }
+        return () => {}; // Stored in parent's map
+    };
+    return observeNode(node, table.type);
+}
+
+/**
+ * Checks if a path (relative to a value of given type) points inside a raw
+ * Yjs type.
+ */
+function isRawPath(type: z.ZodType, path: (string | number)[]): boolean {
+    let t: z.ZodType | undefined = type;
+    for (const segment of path) {
+        t = childSchema(t, segment);
+        if (!t) {
+            return false; // Not in schema
+        }
+        const kind = fieldKind(t);
+        if (kind === 'raw') {
+            return true;
+        } else if (
+            kind === 'set' ||
+            kind === 'counter' ||
+            kind === 'text' ||
+            kind === 'value'
+        ) {
+            return false;
+        }
+    }
+    return false;
+}
+
+function childSchema(
+    field: z.ZodType,
+    segment: string | number,
+): z.ZodType | undefined {
+    const type = unwrap(field);
+    if (type instanceof z.ZodArray) {
+        return typeof segment === 'number'
+            ? (type.element as z.ZodType)
+            : undefined;
+    } else if (type instanceof z.ZodRecord) {
+        return typeof segment === 'string'
+            ? (type.valueType as z.ZodType)
+            : undefined;
+    }
+    let variants: z.ZodObject[] = [];
+    if (type instanceof z.ZodDiscriminatedUnion) {
+        variants = type.options as z.ZodObject[];
+    } else if (type instanceof z.ZodObject) {
+        variants = [type];
+    }
+    return variants
+        .map((variant) => variant.shape[segment])
+        .find((t) => t !== undefined);
+}
@@ -1,8 +1,14 @@
-import { any, remove, upsert } from '@bensku/y-query';
+import { any, insert, type QueryOptions, remove } from '@bensku/y-query';
 import { useQuery } from '@bensku/y-query-react';
 import { useCallback, useMemo } from 'react';
 import * as Y from 'yjs';
-import { NotesTable } from '../schema';
+import { type Note, NotesTable } from '../schema';
+
+// The list shows only titles and dates, so there is no need to read note contents
+const newestFirst = {
+    orderBy: { field: 'createdAt', direction: 'desc' },
+    fields: ['key', 'title', 'createdAt'],
+} as const satisfies QueryOptions<Note>;
 
 interface NotesListProps {
     doc: Y.Doc;
@@ -12,16 +18,10 @@ interface NotesListProps {
 
 export function NotesList({ doc, selectedKey, onSelectNote }: NotesListProps) {
     const filter = useMemo(() => any(), []);
-    const notes = useQuery(doc, NotesTable, filter, 'content');
-
-    const sortedNotes = useMemo(() => {
-        return [...notes].sort((a, b) => b.createdAt - a.createdAt);
-    }, [notes]);
+    const notes = useQuery(doc, NotesTable, filter, 'content', newestFirst);
 
     const handleCreateNote = useCallback(() => {
-        const key = crypto.randomUUID();
-        upsert(doc, NotesTable, {
-            key,
+        const key = insert(doc, NotesTable, {
             title: 'Untitled Note',
             createdAt: Date.now(),
             content: new Y.XmlFragment(),
@@ -53,7 +53,7 @@ export function NotesList({ doc, selectedKey, onSelectNote }: NotesListProps) {
                 </button>
             </div>
             <ul className="notes-items">
-                {sortedNotes.map((note) => (
+                {notes.map((note) => (
                     <li
                         key={note.key}
                         className={`note-item ${selectedKey === note.key ? 'selected' : ''}`}
@@ -10,6 +10,7 @@ export const NotesTable = table(
         createdAt: z.number(),
         content: z.instanceof(Y.XmlFragment).meta({ syncAs: Y.XmlFragment }),
     }),
+    { search: ['title', 'content'] },
 );
 
 export type Note = z.output<typeof NotesTable.type>;
@@ -1,10 +1,27 @@
 import {
+    type AggregateSpec,
+    type Aggregates,
+    type Field,
     type Filter,
+    type JoinFilters,
+    type JoinOn,
+    type KeyValue,
+    type Page,
+    type PageOptions,
+    type Path,
+    type PathValue,
+    type PrimaryKey,
+    type QueryOptions,
+    type SearchOptions,
     type Table,
     type TableBase,
     type WatchLevel,
     watch,
+    watchAggregate,
+    watchJoin,
     watchKey,
+    watchPage,
+    watchSearch,
 } from '@bensku/y-query';
 import { useCallback, useRef, useSyncExternalStore } from 'react';
 import type * as Y from 'yjs';
@@ -16,13 +33,32 @@ import type * as Y from 'yjs';
  * @param query The query itself. This MUST be stable, so if it is dynamically
  * constructed inside React components, remember to use e.g. useCallback()!
  * @param level Watch level. 'content' level is a good default.
+ * @param options Ordering, limits and fields of the results. Like the
+ * query, these MUST be stable.
  * @returns View of rows that match the given query.
  */
+export function useQuery<T extends TableBase, F extends keyof T & string>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    level: WatchLevel,
+    options: Omit<QueryOptions<T>, 'fields'> & {
+        fields: readonly (F & Field<T>)[];
+    },
+): Pick<T, F>[];
 export function useQuery<T extends TableBase>(
     doc: Y.Doc,
     table: Table<T>,
     query: Filter<T>,
     level: WatchLevel,
+    options?: QueryOptions<T>,
+): T[];
+export function useQuery<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    level: WatchLevel,
+    options?: QueryOptions<T>,
 ): T[] {
     const snapshotRef = useRef<T[]>([]);
 
@@ -34,16 +70,187 @@ export function useQuery<T extends TableBase>(
                 query,
                 level,
                 (_added, _removed, _changed, visibleData) => {
+                    // If results are ordered, visibleData is in that order
                     snapshotRef.current = Array.from(
                         visibleData.values() ?? [],
                     );
                     onStoreChange();
                 },
+                options,
             );
             // watch() will immediately and synchronously call the above callback with initial data
             return unwatch;
         },
-        [doc, table, query, level],
+        [doc, table, query, level, options],
+    );
+
+    return useSyncExternalStore(subscribe, () => snapshotRef.current);
+}
+
+/**
+ * Subscribes to pairs of related rows from two tables.
+ * @param doc Database.
+ * @param left Table to read left rows from.
+ * @param right Table to read right rows from.
+ * @param on Fields that relate the rows to each other. This MUST be stable.
+ * @param level Watch level. 'content' level is a good default.
+ * @param filters Queries for rows of each table. Like the relation, these
+ * MUST be stable.
+ * @returns View of left and right row pairs.
+ */
+export function useJoin<L extends TableBase, R extends TableBase>(
+    doc: Y.Doc,
+    left: Table<L>,
+    right: Table<R>,
+    on: JoinOn<L, R>,
+    level: WatchLevel,
+    filters?: JoinFilters<L, R>,
+): [L, R][] {
+    const snapshotRef = useRef<[L, R][]>([]);
+
+    const subscribe = useCallback(
+        (onStoreChange: () => void) => {
+            const unwatch = watchJoin(
+                doc,
+                left,
+                right,
+                on,
+                level,
+                (_added, _removed, _changed, visibleData) => {
+                    snapshotRef.current = Array.from(visibleData.values());
+                    onStoreChange();
+                },
+                filters,
+            );
+            // watchJoin() will synchronously call the above callback with initial data, if there is any
+            return unwatch;
+        },
+        [doc, left, right, on, level, filters],
+    );
+
+    return useSyncExternalStore(subscribe, () => snapshotRef.current);
+}
+
+/**
+ * Subscribes to counts, sums and other values computed from query results.
+ * @param doc Database.
+ * @param table Table in database to query.
+ * @param query The query itself. This MUST be stable, just like with
+ * useQuery().
+ * @param spec Values to compute and how to group the rows. Like the query,
+ * this MUST be stable.
+ * @returns Computed values, by group if the rows are grouped.
+ */
+export function useAggregate<T extends TableBase, P extends Path<T>>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    spec: AggregateSpec<T> & { groupBy: P },
+): Map<PathValue<T, P>, Aggregates>;
+export function useAggregate<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    spec: AggregateSpec<T>,
+): Aggregates;
+export function useAggregate<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    spec: AggregateSpec<T>,
+): Aggregates | Map<unknown, Aggregates> {
+    const snapshotRef = useRef<Aggregates | Map<unknown, Aggregates>>(null);
+
+    const subscribe = useCallback(
+        (onStoreChange: () => void) => {
+            const unwatch = watchAggregate(
+                doc,
+                table,
+                query,
+                spec,
+                (values: Aggregates) => {
+                    snapshotRef.current = values;
+                    onStoreChange();
+                },
+            );
+            // watchAggregate() will immediately and synchronously call the above callback with initial data
+            return unwatch;
+        },
+        [doc, table, query, spec],
+    );
+
+    return useSyncExternalStore(
+        subscribe,
+        () => snapshotRef.current as Aggregates,
+    );
+}
+
+/**
+ * Subscribes to one page of query results.
+ * @param doc Database.
+ * @param table Table in database to query.
+ * @param query The query itself. This MUST be stable, just like with
+ * useQuery().
+ * @param options Ordering and size of the page, and cursor of the previous
+ * page. Like the query, these MUST be stable.
+ * @returns Rows on the page and cursor to the next page.
+ */
+export function usePage<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    query: Filter<T>,
+    options: PageOptions<T>,
+): Page<T> {
+    const snapshotRef = useRef<Page<T>>({ rows: [], cursor: null });
+
+    const subscribe = useCallback(
+        (onStoreChange: () => void) => {
+            const unwatch = watchPage(doc, table, query, options, (page) => {
+                snapshotRef.current = page;
+                onStoreChange();
+            });
+            // watchPage() will immediately and synchronously call the above callback with initial data
+            return unwatch;
+        },
+        [doc, table, query, options],
+    );
+
+    return useSyncExternalStore(subscribe, () => snapshotRef.current);
+}
+
+/**
+ * Subscribes to results of a full-text search.
+ * @param doc Database.
+ * @param table Table in database to search.
+ * @param text Text to search for.
+ * @param options Additional query and maximum number of rows. This MUST be
+ * stable.
+ * @returns Rows that were found, with the most relevant ones first.
+ */
+export function useSearch<T extends TableBase>(
+    doc: Y.Doc,
+    table: Table<T>,
+    text: string,
+    options?: SearchOptions<T>,
+): T[] {
+    const snapshotRef = useRef<T[]>([]);
+
+    const subscribe = useCallback(
+        (onStoreChange: () => void) => {
+            const unwatch = watchSearch(
+                doc,
+                table,
+                text,
+                (rows) => {
+                    snapshotRef.current = rows;
+                    onStoreChange();
+                },
+                options,
+            );
+            // watchSearch() will immediately and synchronously call the above callback with initial data
+            return unwatch;
+        },
+        [doc, table, text, options],
     );
 
     return useSyncExternalStore(subscribe, () => snapshotRef.current);
@@ -53,14 +260,15 @@ export function useQuery<T extends TableBase>(
  * Subscribes to changes in one row.
  * @param doc Database.
  * @param table Table in database to query.
- * @param key Row key.
+ * @param key Primary key of the row. Composite keys MUST be stable, just
+ * like queries.
  * @param level Watch level. 'content' level is a good default.
  * @returns The row, possibly null if it doesn't (yet) exist.
  */
-export function useRow<T extends TableBase>(
+export function useRow<T extends TableBase, K extends PrimaryKey<T>>(
     doc: Y.Doc,
-    table: Table<T>,
-    key: string,
+    table: Table<T, K>,
+    key: KeyValue<T, K>,
     level: WatchLevel,
 ): T | null {
     const snapshotRef = useRef<T>(null);